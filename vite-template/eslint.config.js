@@ -11,6 +11,8 @@ import pluginImport from "eslint-plugin-import";
 
 export default [
   { languageOptions: { globals: globals.browser } },
+  // Build scripts run in Node
+  { files: ["scripts/**/*.js"], languageOptions: { globals: globals.node } },
   pluginJs.configs.recommended,
   ...tseslint.configs.recommended,
   {
@@ -0,0 +1,49 @@
+/**
+ * @file verify-levels.js
+ * @description Plans a range of generated levels and checks that every one
+ * of them can be completed, using the headless level verifier.
+ * Exits with an error listing the seeds that cannot be completed.
+ *
+ * Usage: npm run verify-levels -- [firstSeed] [count]
+ */
+import { createServer } from "vite";
+
+const DEFAULT_FIRST_SEED = 1;
+const DEFAULT_COUNT = 2000;
+
+const firstSeed = Number(process.argv[2] ?? DEFAULT_FIRST_SEED);
+const count = Number(process.argv[3] ?? DEFAULT_COUNT);
+if (!Number.isInteger(firstSeed) || !Number.isInteger(count) || count < 1) {
+  console.error("Usage: npm run verify-levels -- [firstSeed] [count]");
+  process.exit(1);
+}
+
+// Load the TypeScript sources through Vite, so the path aliases resolve
+const server = await createServer({
+  appType: "custom",
+  logLevel: "error",
+  server: { middlewareMode: true, hmr: false, ws: false },
+  // Nothing is served to a browser, so skip scanning for dependencies
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  const { findUnsolvableSeeds } = await server.ssrLoadModule(
+    "/src/lib/levelVerifier.ts"
+  );
+  const unsolvable = findUnsolvableSeeds(firstSeed, count);
+
+  const lastSeed = firstSeed + count - 1;
+  if (unsolvable.length > 0) {
+    console.error(
+      `${unsolvable.length} of ${count} levels cannot be completed: ${unsolvable.join(", ")}`
+    );
+    process.exitCode = 1;
+  } else {
+    console.log(
+      `All ${count} levels (seeds ${firstSeed}-${lastSeed}) can be completed`
+    );
+  }
+} finally {
+  await server.close();
+}
@@ -0,0 +1,130 @@
+/**
+ * @file Checkpoint.ts
+ * @description Represents a checkpoint flag standing on a platform.
+ * Implemented as a static Box2D sensor. The first time the player touches
+ * it, the flag turns green and `checkpointReached` is published, so the
+ * player respawns here after losing a life.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, PHYSICS } from "@constants";
+import Platform from "@entities/Platform";
+import { gameState } from "@gameState";
+import {
+  STATIC,
+  b2BodyId,
+  b2CreateBody,
+  b2CreatePolygonShape,
+  b2DefaultBodyDef,
+  b2DefaultShapeDef,
+  b2MakeBox,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+import { eventBus } from "../lib/eventBus";
+
+export default class Checkpoint extends Phaser.GameObjects.Sprite {
+  scene: Phaser.Scene;
+  bodyId: InstanceType<typeof b2BodyId> | null = null;
+  isActivated: boolean = false;
+  /** Where the player respawns after reaching this checkpoint, in pixels */
+  respawnPoint: { x: number; y: number };
+
+  /**
+   * Declares what happens when other shapes touch a checkpoint.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on(
+      "sensorBegin",
+      "checkpoint",
+      "player",
+      ({ checkpointInstance }) => {
+        checkpointInstance.activate();
+      }
+    );
+  }
+
+  /**
+   * Creates a checkpoint flag standing on a platform.
+   *
+   * @param scene The scene to add the checkpoint to.
+   * @param platform The platform the checkpoint stands on.
+   * @param x The x position of the checkpoint in pixels.
+   */
+  constructor(scene: Phaser.Scene, platform: Platform, x: number) {
+    super(scene, x, platform.surfaceY, ASSETS.CHECKPOINT.INACTIVE_KEY);
+    this.scene = scene;
+
+    // Stand the flag on the platform surface
+    this.y = platform.surfaceY - this.height / 2;
+    // Respawn a duck's height above the surface, like at the level spawn
+    this.respawnPoint = {
+      x,
+      y: platform.surfaceY - ASSETS.PLAYER.SIZE.HEIGHT,
+    };
+
+    this.scene.add.existing(this);
+    this.setDepth(5);
+    this.initPhysics();
+  }
+
+  initPhysics() {
+    const bodyDef = {
+      ...b2DefaultBodyDef(),
+      type: STATIC,
+      position: new b2Vec2(this.x / PHYSICS.SCALE, -this.y / PHYSICS.SCALE),
+    };
+
+    const bodyId = b2CreateBody(gameState.worldId, bodyDef);
+    this.bodyId = bodyId;
+
+    if (!bodyId) {
+      console.error("Failed to create checkpoint physics body!");
+      return;
+    }
+
+    const shapeDef = {
+      ...b2DefaultShapeDef(),
+      isSensor: true,
+      filter: createShapeFilter("SENSOR"),
+      density: 0,
+      friction: 0,
+      restitution: 0,
+      userData: {
+        type: "checkpoint",
+        checkpointInstance: this,
+      } satisfies ShapeUserData,
+    };
+
+    const box = b2MakeBox(
+      this.width / (2 * PHYSICS.SCALE),
+      this.height / (2 * PHYSICS.SCALE)
+    );
+    b2CreatePolygonShape(bodyId, shapeDef, box);
+  }
+
+  /**
+   * Raises the flag and announces the new respawn point, once per run.
+   */
+  activate() {
+    if (this.isActivated) return;
+    this.isActivated = true;
+
+    this.setTexture(ASSETS.CHECKPOINT.ACTIVE_KEY);
+    eventBus.emit("checkpointReached", { ...this.respawnPoint });
+  }
+
+  /**
+   * Lowers the flag again for a new run.
+   */
+  reset() {
+    this.isActivated = false;
+    this.setTexture(ASSETS.CHECKPOINT.INACTIVE_KEY);
+  }
+}
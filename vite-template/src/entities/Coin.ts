@@ -17,12 +17,32 @@ import {
   b2MakeBox,
   b2Vec2,
 } from "@PhaserBox2D";
-import GameScene from "@scenes/GameScene";
+
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+import { eventBus } from "../lib/eventBus";
 
 export default class Coin extends Phaser.GameObjects.Sprite {
   scene: Phaser.Scene;
   bodyId: InstanceType<typeof b2BodyId> | null = null;
   isCollected: boolean = false;
+  /** Collected before the last checkpoint, so losing a life keeps it */
+  isBanked: boolean = false;
+
+  /**
+   * Declares what happens when other shapes touch a coin.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on("sensorBegin", "coin", "player", ({ coinInstance }) => {
+      if (coinInstance.isCollected) return;
+      coinInstance.collect();
+      gameState.incrementCoins();
+    });
+  }
 
   constructor(scene: Phaser.Scene, x: number, y: number) {
     super(scene, x, y, ASSETS.ATLAS, ASSETS.COIN.FRAME);
@@ -37,7 +57,7 @@ export default class Coin extends Phaser.GameObjects.Sprite {
       ...b2DefaultBodyDef(),
       type: STATIC,
       position: new b2Vec2(this.x / PHYSICS.SCALE, -this.y / PHYSICS.SCALE), // Scale and negate Y for Box2D
-      userData: { type: "coin", coinInstance: this },
+      userData: { type: "coin", coinInstance: this } satisfies ShapeUserData,
     };
 
     // Create the body directly
@@ -54,11 +74,12 @@ export default class Coin extends Phaser.GameObjects.Sprite {
     const shapeDef = {
       ...b2DefaultShapeDef(),
       isSensor: true,
+      filter: createShapeFilter("COIN"),
       enableContactEvents: true,
       density: 0,
       friction: 0,
       restitution: 0,
-      userData: { type: "coin", coinInstance: this },
+      userData: { type: "coin", coinInstance: this } satisfies ShapeUserData,
     };
 
     // Create box geometry with proper scaling for Box2D (in meters)
@@ -75,18 +96,8 @@ export default class Coin extends Phaser.GameObjects.Sprite {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     AddSpriteToWorld(gameState.worldId as any, this, { bodyId: this.bodyId });
 
-    // Register this coin's bodyId and sprite instance in the GameScene map
-    if (this.bodyId && this.scene instanceof GameScene) {
-      (this.scene as GameScene).bodyIdToSpriteMap.set(this.bodyId.index1, this);
-    } else if (this.bodyId) {
-      console.warn(
-        "Coin added to a scene that is not GameScene. Cannot register in bodyIdToSpriteMap."
-      );
-    } else {
-      console.warn(
-        "Failed to register coin in bodyIdToSpriteMap. BodyId invalid."
-      );
-    }
+    // Announce this coin's bodyId and sprite instance
+    eventBus.emit("bodyCreated", { bodyId, sprite: this });
   }
 
   collect() {
@@ -112,6 +123,7 @@ export default class Coin extends Phaser.GameObjects.Sprite {
    */
   reset() {
     this.isCollected = false;
+    this.isBanked = false;
     this.setVisible(true);
     this.setActive(true);
     // No need to re-initialize physics as the body was never destroyed/orphaned
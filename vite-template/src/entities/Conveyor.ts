@@ -0,0 +1,159 @@
+/**
+ * @file Conveyor.ts
+ * @description Represents a conveyor belt lying on a platform.
+ * Implemented as a static Box2D sensor just above the platform surface.
+ * While the player stands in it, the belt speed is added to the ground
+ * velocity, so the player is carried along and can still walk against it.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, PHYSICS } from "@constants";
+import Platform from "@entities/Platform";
+import type { SurfaceEffect } from "@entities/Player";
+import { gameState } from "@gameState";
+import {
+  STATIC,
+  b2BodyId,
+  b2CreateBody,
+  b2CreatePolygonShape,
+  b2DefaultBodyDef,
+  b2DefaultShapeDef,
+  b2MakeBox,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+
+export default class Conveyor
+  extends Phaser.GameObjects.TileSprite
+  implements SurfaceEffect
+{
+  scene: Phaser.Scene;
+  bodyId: InstanceType<typeof b2BodyId> | null = null;
+  /** Belt speed in meters/second, positive to the right */
+  surfaceSpeed: number;
+  /** Conveyors grip like plain ground */
+  traction = 1;
+
+  /**
+   * Declares what happens when other shapes touch a conveyor.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on(
+      "sensorBegin",
+      "conveyor",
+      "player",
+      ({ conveyorInstance }, { playerInstance }) => {
+        playerInstance.enterSurface(conveyorInstance);
+      }
+    );
+    registry.on(
+      "sensorEnd",
+      "conveyor",
+      "player",
+      ({ conveyorInstance }, { playerInstance }) => {
+        playerInstance.leaveSurface(conveyorInstance);
+      }
+    );
+  }
+
+  /**
+   * Creates a conveyor belt lying on a platform.
+   *
+   * @param scene The scene to add the conveyor to.
+   * @param platform The platform the conveyor lies on.
+   * @param x The center x position of the belt in pixels.
+   * @param width The width of the belt in pixels.
+   * @param speed Belt speed in pixels/second, positive to the right.
+   */
+  constructor(
+    scene: Phaser.Scene,
+    platform: Platform,
+    x: number,
+    width: number,
+    speed: number = PHYSICS.TILES.CONVEYOR.SPEED
+  ) {
+    const height = ASSETS.TILES.CONVEYOR.HEIGHT;
+    // Lay the belt over the top of the platform art, under the duck's feet
+    super(
+      scene,
+      x,
+      platform.surfaceY + height / 2,
+      width,
+      height,
+      ASSETS.TILES.CONVEYOR.KEY
+    );
+    this.scene = scene;
+    this.surfaceSpeed = speed / PHYSICS.SCALE;
+
+    this.scene.add.existing(this);
+    this.setDepth(1);
+    this.initPhysics(platform.surfaceY);
+    this.animateBelt(speed);
+  }
+
+  /**
+   * Creates the sensor that finds the player standing on the belt.
+   * @param surfaceY Y position of the platform surface in pixels
+   */
+  initPhysics(surfaceY: number) {
+    const sensorHeight = PHYSICS.TILES.SURFACE_SENSOR_HEIGHT;
+    const bodyDef = {
+      ...b2DefaultBodyDef(),
+      type: STATIC,
+      position: new b2Vec2(
+        this.x / PHYSICS.SCALE,
+        -(surfaceY - sensorHeight / 2) / PHYSICS.SCALE
+      ),
+    };
+
+    const bodyId = b2CreateBody(gameState.worldId, bodyDef);
+    this.bodyId = bodyId;
+
+    if (!bodyId) {
+      console.error("Failed to create conveyor physics body!");
+      return;
+    }
+
+    const shapeDef = {
+      ...b2DefaultShapeDef(),
+      isSensor: true,
+      filter: createShapeFilter("SENSOR"),
+      density: 0,
+      friction: 0,
+      restitution: 0,
+      userData: {
+        type: "conveyor",
+        conveyorInstance: this,
+      } satisfies ShapeUserData,
+    };
+
+    const box = b2MakeBox(
+      this.width / (2 * PHYSICS.SCALE),
+      sensorHeight / (2 * PHYSICS.SCALE)
+    );
+    b2CreatePolygonShape(bodyId, shapeDef, box);
+  }
+
+  /**
+   * Scrolls the belt stripes endlessly at the belt speed.
+   * @param speed Belt speed in pixels/second
+   */
+  private animateBelt(speed: number) {
+    if (speed === 0) return;
+
+    // One segment per loop, so the texture lines up again when it repeats
+    const segmentWidth = ASSETS.TILES.CONVEYOR.WIDTH;
+    this.scene.tweens.add({
+      targets: this,
+      tilePositionX: -Math.sign(speed) * segmentWidth,
+      duration: (segmentWidth / Math.abs(speed)) * 1000,
+      repeat: -1,
+    });
+  }
+}
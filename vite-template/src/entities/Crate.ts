@@ -0,0 +1,167 @@
+/**
+ * @file Crate.ts
+ * @description Represents a pushable crate entity in the game.
+ * Crates use a dynamic Box2D body so the duck can push them, stand on them
+ * and use them as a step. Each crate is confined to the platform it spawns on.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, PHYSICS } from "@constants";
+import Platform from "@entities/Platform";
+import { gameState } from "@gameState";
+import {
+  AddSpriteToWorld,
+  DYNAMIC,
+  b2BodyId,
+  b2Body_GetLinearVelocity,
+  b2Body_GetPosition,
+  b2Body_SetAwake,
+  b2Body_SetLinearVelocity,
+  b2Body_SetTransform,
+  b2CreateBody,
+  b2CreatePolygonShape,
+  b2DefaultBodyDef,
+  b2DefaultShapeDef,
+  b2MakeBox,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import { ShapeUserData, createShapeFilter } from "../lib/collisionRegistry";
+import { eventBus } from "../lib/eventBus";
+
+/** Available crate variants */
+export type CrateSize = "big" | "small";
+
+export default class Crate extends Phaser.GameObjects.Sprite {
+  scene: Phaser.Scene;
+  bodyId: InstanceType<typeof b2BodyId> | null = null;
+  size: CrateSize;
+  startPosition: Phaser.Math.Vector2;
+  /** Minimum x position of the crate center in pixels */
+  minX: number;
+  /** Maximum x position of the crate center in pixels */
+  maxX: number;
+
+  /**
+   * Creates a crate resting on top of a platform.
+   *
+   * @param scene The scene to add the crate to.
+   * @param platform The platform the crate spawns on and is confined to.
+   * @param x The x position of the crate center in pixels.
+   * @param size The crate variant.
+   */
+  constructor(
+    scene: Phaser.Scene,
+    platform: Platform,
+    x: number,
+    size: CrateSize
+  ) {
+    const frame = size === "big" ? ASSETS.CRATE.BIG : ASSETS.CRATE.SMALL;
+    super(scene, x, platform.surfaceY, ASSETS.ATLAS, frame);
+    this.scene = scene;
+    this.size = size;
+
+    // Rest the crate on the platform surface
+    this.y = platform.surfaceY - this.height / 2;
+
+    // Keep the whole crate within the platform edges
+    this.minX = platform.left + this.width / 2;
+    this.maxX = platform.right - this.width / 2;
+    this.x = Phaser.Math.Clamp(this.x, this.minX, this.maxX);
+
+    this.startPosition = new Phaser.Math.Vector2(this.x, this.y);
+
+    this.scene.add.existing(this);
+    this.setDepth(5);
+    this.initPhysics();
+  }
+
+  initPhysics() {
+    const bodyDef = {
+      ...b2DefaultBodyDef(),
+      type: DYNAMIC,
+      position: new b2Vec2(this.x / PHYSICS.SCALE, -this.y / PHYSICS.SCALE),
+      fixedRotation: true, // Keep crates upright so they stay stackable
+      linearDamping: PHYSICS.CRATE.LINEAR_DAMPING,
+    };
+
+    const bodyId = b2CreateBody(gameState.worldId, bodyDef);
+    this.bodyId = bodyId;
+
+    if (!bodyId) {
+      console.error("Failed to create crate physics body!");
+      return;
+    }
+
+    const halfWidth = this.width / (2 * PHYSICS.SCALE);
+    const halfHeight = this.height / (2 * PHYSICS.SCALE);
+
+    // Derive density from the target mass so big crates are always
+    // BIG_MASS_RATIO times heavier than small ones, whatever the sprite sizes
+    const mass =
+      this.size === "big"
+        ? PHYSICS.CRATE.SMALL_MASS * PHYSICS.CRATE.BIG_MASS_RATIO
+        : PHYSICS.CRATE.SMALL_MASS;
+    const area = halfWidth * 2 * (halfHeight * 2);
+
+    const shapeDef = {
+      ...b2DefaultShapeDef(),
+      density: mass / area,
+      friction: PHYSICS.CRATE.FRICTION,
+      restitution: PHYSICS.CRATE.RESTITUTION,
+      userData: { type: "crate", crateInstance: this } satisfies ShapeUserData,
+      isSensor: false,
+      filter: createShapeFilter("CRATE"),
+      enableContactEvents: true,
+    };
+
+    const box = b2MakeBox(halfWidth, halfHeight);
+    b2CreatePolygonShape(bodyId, shapeDef, box);
+
+    // Link the sprite to the body for rendering updates
+    AddSpriteToWorld(gameState.worldId, this, { bodyId });
+
+    // Announce this crate's bodyId and sprite instance
+    eventBus.emit("bodyCreated", { bodyId, sprite: this });
+  }
+
+  /**
+   * Keeps the crate between the edges of its platform.
+   * Called after every physics step so the crate can never be pushed off.
+   */
+  constrainToPlatform() {
+    if (!this.bodyId) return;
+
+    const position = b2Body_GetPosition(this.bodyId);
+    const x = position.x * PHYSICS.SCALE;
+
+    if (x >= this.minX && x <= this.maxX) return;
+
+    const clampedX = Phaser.Math.Clamp(x, this.minX, this.maxX);
+    b2Body_SetTransform(
+      this.bodyId,
+      new b2Vec2(clampedX / PHYSICS.SCALE, position.y)
+    );
+
+    // Cancel the horizontal motion that pushed the crate past the edge
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(0, velocity.y));
+  }
+
+  /**
+   * Resets the crate to its spawn position and clears any motion.
+   */
+  reset() {
+    this.x = this.startPosition.x;
+    this.y = this.startPosition.y;
+
+    if (!this.bodyId) return;
+
+    b2Body_SetTransform(
+      this.bodyId,
+      new b2Vec2(this.x / PHYSICS.SCALE, -this.y / PHYSICS.SCALE)
+    );
+    b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(0, 0));
+    b2Body_SetAwake(this.bodyId, true);
+  }
+}
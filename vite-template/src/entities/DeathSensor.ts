@@ -1,6 +1,6 @@
 import * as Phaser from "phaser";
 
-import { PHYSICS, WORLD } from "@constants";
+import { PHYSICS } from "@constants";
 import { gameState } from "@gameState";
 // Import runtime values/functions via alias
 import {
@@ -14,11 +14,18 @@ import {
   b2CreatePolygonShape,
 } from "@PhaserBox2D";
 
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+import { settings } from "../lib/settings";
+
 /**
  * @file DeathSensor.ts
  * @description Represents an invisible sensor area at the bottom of the game world.
  * If the player collides with this sensor (i.e., falls off the world),
- * it triggers the player's death sequence.
+ * it triggers the player's death sequence, which costs a life.
  * Implemented as a static Box2D sensor body.
  */
 
@@ -35,35 +42,62 @@ export default class DeathSensor {
   marker: Phaser.GameObjects.Rectangle | null = null;
 
   /**
-   * Creates a new death sensor at the specified position
+   * Declares what happens when other shapes touch the death sensor.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on(
+      "sensorBegin",
+      "deathSensor",
+      "player",
+      (_sensor, { playerInstance }) => {
+        console.log("Player contacted death sensor at position:", {
+          x: playerInstance.x,
+          y: playerInstance.y,
+        });
+
+        // Kill the player which stops movement and plays death animation.
+        // Player.kill() publishes playerDied, and the scene takes a life or ends the run
+        playerInstance.kill();
+      }
+    );
+  }
+
+  /**
+   * Creates a new death sensor spanning the whole world width
    * @param scene The scene to add the sensor to
+   * @param sensorY Y position of the sensor in pixels
+   * @param worldWidth Width of the level's world in pixels
    */
-  constructor(scene: Phaser.Scene) {
+  constructor(scene: Phaser.Scene, sensorY: number, worldWidth: number) {
     this.scene = scene;
 
-    const { x, y, width, height } = this.calculateInitialConfig();
+    const { x, y, width, height } = this.calculateInitialConfig(
+      sensorY,
+      worldWidth
+    );
 
     // Create the body
     this.createPhysicsBody(x, y, width, height);
 
-    // Optionally create a visual marker for debugging
+    // Create a visual marker for debugging, shown with the debug overlay
     this.createDebugMarker(x, y, width, height);
   }
 
   /**
    * Calculate the initial configuration for the death sensor
+   * @param sensorY Y position of the sensor in pixels
+   * @param worldWidth Width of the level's world in pixels
    * @returns The initial configuration
    */
-  private calculateInitialConfig(): InitialConfig {
-    // Position the death sensor 200px below the lowest platform
-    // The lowest platform is at y = 600 (as defined in the levelGenerator)
-    const lowestPlatformY = 600;
-    const sensorY = lowestPlatformY + 200; // 200px below the platform
-
+  private calculateInitialConfig(
+    sensorY: number,
+    worldWidth: number
+  ): InitialConfig {
     return {
-      x: WORLD.WIDTH / 2,
+      x: worldWidth / 2,
       y: sensorY,
-      width: WORLD.WIDTH, // Cover the entire width of the world
+      width: worldWidth, // Cover the entire width of the world
       height: PHYSICS.DEATH_SENSOR.HEIGHT,
     };
   }
@@ -104,7 +138,8 @@ export default class DeathSensor {
       friction: PHYSICS.DEATH_SENSOR.FRICTION,
       restitution: PHYSICS.DEATH_SENSOR.RESTITUTION,
       isSensor: true, // Important: this is a sensor, not a solid body
-      userData: { type: "deathSensor" }, // Used to identify collisions
+      filter: createShapeFilter("SENSOR"),
+      userData: { type: "deathSensor" } satisfies ShapeUserData, // Used to identify collisions
     };
 
     // Create box shape
@@ -135,10 +170,17 @@ export default class DeathSensor {
     width: number,
     height: number
   ) {
-    if (!PHYSICS.DEATH_SENSOR.VISIBLE) return;
-    // Create a visual marker for debugging (optional - can be removed in production)
     this.marker = this.scene.add.rectangle(x, y, width, height, 0xff0000, 0.3);
     this.marker.setDepth(100); // Make sure it's visible above other elements
+    this.setMarkerVisible(settings.get().debugOverlay);
+  }
+
+  /**
+   * Shows or hides the debug marker
+   * @param visible Whether the marker should be drawn
+   */
+  setMarkerVisible(visible: boolean) {
+    this.marker?.setVisible(visible);
   }
 
   /**
@@ -0,0 +1,243 @@
+/**
+ * @file Enemy.ts
+ * @description Represents a patrolling enemy (a ball) in the game.
+ * The enemy walks back and forth along the platform it spawns on, turning
+ * around at the platform edges and when it runs into a wall. Touching it from
+ * the side kills the player, while landing on its head stomps it.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, PHYSICS } from "@constants";
+import Platform from "@entities/Platform";
+import { gameState } from "@gameState";
+import {
+  AddSpriteToWorld,
+  DYNAMIC,
+  b2BodyId,
+  b2Body_Disable,
+  b2Body_Enable,
+  b2Body_GetLinearVelocity,
+  b2Body_GetPosition,
+  b2Body_SetLinearVelocity,
+  b2Body_SetTransform,
+  b2Circle,
+  b2CreateBody,
+  b2CreateCircleShape,
+  b2DefaultBodyDef,
+  b2DefaultShapeDef,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import {
+  CollisionInfo,
+  CollisionRegistry,
+  ShapeUserData,
+  ShapeUserDataOf,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+import { eventBus } from "../lib/eventBus";
+
+export default class Enemy extends Phaser.GameObjects.Sprite {
+  scene: Phaser.Scene;
+  bodyId: InstanceType<typeof b2BodyId> | null = null;
+  startPosition: Phaser.Math.Vector2;
+  /** Current patrol direction (-1 for left, 1 for right) */
+  direction: number = 1;
+  isStomped: boolean = false;
+  /** Minimum x position of the enemy center in pixels */
+  minX: number;
+  /** Maximum x position of the enemy center in pixels */
+  maxX: number;
+
+  /**
+   * Declares what happens when other shapes touch an enemy.
+   * Enemies turn around when they hit a wall, get stomped when the player
+   * lands on their head and kill the player on any other contact.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on(
+      "contactBegin",
+      "enemy",
+      "player",
+      ({ enemyInstance }, { playerInstance }, { normal }) => {
+        if (enemyInstance.isStomped || !normal) return;
+        if (!gameState.isPlaying || playerInstance.playerState.isDead) return;
+
+        // The normal points from the enemy to the player
+        if (normal.y > PHYSICS.ENEMY.STOMP_NORMAL_THRESHOLD) {
+          // The player landed on the enemy's head
+          enemyInstance.stomp();
+          playerInstance.bounce(PHYSICS.ENEMY.STOMP_BOUNCE_VELOCITY);
+        } else {
+          playerInstance.kill();
+        }
+      }
+    );
+
+    // Ran into a wall, crate or another enemy
+    const hitWall = (
+      { enemyInstance }: ShapeUserDataOf<"enemy">,
+      _other: ShapeUserData,
+      { normal }: CollisionInfo
+    ) => {
+      if (enemyInstance.isStomped || !normal) return;
+      if (Math.abs(normal.x) > PHYSICS.ENEMY.WALL_NORMAL_THRESHOLD) {
+        enemyInstance.hitWall(normal.x);
+      }
+    };
+    registry.on("contactBegin", "enemy", "platform", hitWall);
+    registry.on("contactBegin", "enemy", "crate", hitWall);
+    registry.on("contactBegin", "enemy", "enemy", hitWall);
+  }
+
+  /**
+   * Creates an enemy patrolling the given platform.
+   *
+   * @param scene The scene to add the enemy to.
+   * @param platform The platform the enemy patrols.
+   * @param x The x position of the enemy spawn in pixels.
+   */
+  constructor(scene: Phaser.Scene, platform: Platform, x: number) {
+    super(scene, x, platform.surfaceY, ASSETS.ATLAS, ASSETS.ENEMY.FRAME);
+    this.scene = scene;
+    this.setScale(ASSETS.ENEMY.SCALE);
+
+    // Rest the enemy on the platform surface
+    this.y = platform.surfaceY - this.displayHeight / 2;
+
+    // Patrol between the platform edges
+    this.minX = platform.left + this.displayWidth / 2;
+    this.maxX = platform.right - this.displayWidth / 2;
+    this.x = Phaser.Math.Clamp(this.x, this.minX, this.maxX);
+
+    this.startPosition = new Phaser.Math.Vector2(this.x, this.y);
+
+    this.scene.add.existing(this);
+    this.setDepth(8);
+    this.initPhysics();
+  }
+
+  initPhysics() {
+    const bodyDef = {
+      ...b2DefaultBodyDef(),
+      type: DYNAMIC,
+      position: new b2Vec2(this.x / PHYSICS.SCALE, -this.y / PHYSICS.SCALE),
+      fixedRotation: true,
+      allowSleep: false, // Keep patrolling even when nothing touches it
+    };
+
+    const bodyId = b2CreateBody(gameState.worldId, bodyDef);
+    this.bodyId = bodyId;
+
+    if (!bodyId) {
+      console.error("Failed to create enemy physics body!");
+      return;
+    }
+
+    const shapeDef = {
+      ...b2DefaultShapeDef(),
+      density: PHYSICS.ENEMY.DENSITY,
+      friction: PHYSICS.ENEMY.FRICTION,
+      restitution: PHYSICS.ENEMY.RESTITUTION,
+      userData: { type: "enemy", enemyInstance: this } satisfies ShapeUserData,
+      isSensor: false,
+      filter: createShapeFilter("ENEMY"),
+      enableContactEvents: true,
+    };
+
+    const circle = new b2Circle();
+    circle.radius = this.displayWidth / (2 * PHYSICS.SCALE);
+    b2CreateCircleShape(bodyId, shapeDef, circle);
+
+    // Link the sprite to the body for rendering updates
+    AddSpriteToWorld(gameState.worldId, this, { bodyId });
+
+    // Announce this enemy's bodyId and sprite instance
+    eventBus.emit("bodyCreated", { bodyId, sprite: this });
+  }
+
+  /**
+   * Drives the patrol. Turns around at the platform edges and only moves
+   * while the game is being played.
+   */
+  update() {
+    if (!this.bodyId || this.isStomped) return;
+
+    const position = b2Body_GetPosition(this.bodyId);
+    const x = position.x * PHYSICS.SCALE;
+
+    if (x <= this.minX && this.direction < 0) {
+      this.direction = 1;
+    } else if (x >= this.maxX && this.direction > 0) {
+      this.direction = -1;
+    }
+
+    const speed = gameState.isPlaying
+      ? (PHYSICS.PLAYER.SPEED * PHYSICS.ENEMY.SPEED_FACTOR) / PHYSICS.SCALE
+      : 0;
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    b2Body_SetLinearVelocity(
+      this.bodyId,
+      new b2Vec2(this.direction * speed, velocity.y)
+    );
+
+    this.setFlipX(this.direction < 0);
+  }
+
+  /**
+   * Turns the enemy away from a wall it ran into.
+   * @param normalX Horizontal contact normal pointing from the enemy to the wall
+   */
+  hitWall(normalX: number) {
+    this.direction = normalX > 0 ? -1 : 1;
+  }
+
+  /**
+   * Squashes the enemy after the player lands on its head.
+   */
+  stomp() {
+    if (this.isStomped) return;
+    this.isStomped = true;
+
+    if (this.bodyId) {
+      b2Body_Disable(this.bodyId);
+    }
+
+    this.scene.tweens.add({
+      targets: this,
+      scaleY: ASSETS.ENEMY.SCALE * 0.2,
+      alpha: 0,
+      duration: 200,
+      onComplete: () => {
+        this.setVisible(false);
+        this.setActive(false);
+      },
+    });
+  }
+
+  /**
+   * Respawns the enemy at its start position, patrolling right.
+   */
+  reset() {
+    this.scene.tweens.killTweensOf(this);
+    this.isStomped = false;
+    this.direction = 1;
+    this.x = this.startPosition.x;
+    this.y = this.startPosition.y;
+    this.setScale(ASSETS.ENEMY.SCALE);
+    this.setAlpha(1);
+    this.setVisible(true);
+    this.setActive(true);
+    this.setFlipX(false);
+
+    if (!this.bodyId) return;
+
+    b2Body_Enable(this.bodyId);
+    b2Body_SetTransform(
+      this.bodyId,
+      new b2Vec2(this.x / PHYSICS.SCALE, -this.y / PHYSICS.SCALE)
+    );
+    b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(0, 0));
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * @file Finish.ts
+ * @description Represents the finish flag at the end of the level.
+ * Implemented as a static Box2D sensor. When the player touches it, the flag
+ * plays its activation animation and then loops the active animation.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, PHYSICS } from "@constants";
+import Platform from "@entities/Platform";
+import { gameState } from "@gameState";
+import {
+  AddSpriteToWorld,
+  STATIC,
+  b2BodyId,
+  b2CreateBody,
+  b2CreatePolygonShape,
+  b2DefaultBodyDef,
+  b2DefaultShapeDef,
+  b2MakeBox,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+import { eventBus } from "../lib/eventBus";
+
+export default class Finish extends Phaser.GameObjects.Sprite {
+  scene: Phaser.Scene;
+  bodyId: InstanceType<typeof b2BodyId> | null = null;
+  isActivated: boolean = false;
+
+  /**
+   * Declares what happens when other shapes touch a finish flag.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on("sensorBegin", "finish", "player", ({ finishInstance }) => {
+      eventBus.emit("finishReached", {
+        x: finishInstance.x,
+        y: finishInstance.y,
+      });
+    });
+  }
+
+  /**
+   * Creates a finish flag standing on a platform.
+   *
+   * @param scene The scene to add the finish to.
+   * @param platform The platform the finish stands on.
+   * @param x The x position of the finish in pixels.
+   */
+  constructor(scene: Phaser.Scene, platform: Platform, x: number) {
+    super(scene, x, platform.surfaceY, ASSETS.ATLAS, ASSETS.FINISH.IDLE.FRAME);
+    this.scene = scene;
+
+    // Stand the flag on the platform surface
+    this.y = platform.surfaceY - this.height / 2;
+
+    this.scene.add.existing(this);
+    this.setDepth(5);
+    this.initPhysics();
+  }
+
+  initPhysics() {
+    const bodyDef = {
+      ...b2DefaultBodyDef(),
+      type: STATIC,
+      position: new b2Vec2(this.x / PHYSICS.SCALE, -this.y / PHYSICS.SCALE),
+    };
+
+    const bodyId = b2CreateBody(gameState.worldId, bodyDef);
+    this.bodyId = bodyId;
+
+    if (!bodyId) {
+      console.error("Failed to create finish physics body!");
+      return;
+    }
+
+    const shapeDef = {
+      ...b2DefaultShapeDef(),
+      isSensor: true,
+      filter: createShapeFilter("FINISH"),
+      enableContactEvents: true,
+      density: 0,
+      friction: 0,
+      restitution: 0,
+      userData: {
+        type: "finish",
+        finishInstance: this,
+      } satisfies ShapeUserData,
+    };
+
+    const box = b2MakeBox(
+      this.width / (2 * PHYSICS.SCALE),
+      this.height / (2 * PHYSICS.SCALE)
+    );
+    b2CreatePolygonShape(bodyId, shapeDef, box);
+
+    // Link the sprite to the body for rendering updates
+    AddSpriteToWorld(gameState.worldId, this, { bodyId });
+
+    // Announce this finish's bodyId and sprite instance
+    eventBus.emit("bodyCreated", { bodyId, sprite: this });
+  }
+
+  /**
+   * Plays the activation animation, then loops the active animation.
+   */
+  activate() {
+    if (this.isActivated) return;
+    this.isActivated = true;
+
+    this.play(ASSETS.FINISH.ACTIVATED.KEY);
+    this.once(
+      Phaser.Animations.Events.ANIMATION_COMPLETE_KEY +
+        ASSETS.FINISH.ACTIVATED.KEY,
+      () => {
+        this.play(ASSETS.FINISH.ACTIVE.KEY);
+      },
+      this
+    );
+  }
+
+  /**
+   * Resets the finish to its idle frame.
+   */
+  reset() {
+    this.isActivated = false;
+    this.off(
+      Phaser.Animations.Events.ANIMATION_COMPLETE_KEY +
+        ASSETS.FINISH.ACTIVATED.KEY
+    );
+    this.anims.stop();
+    this.setFrame(ASSETS.FINISH.IDLE.FRAME);
+  }
+}
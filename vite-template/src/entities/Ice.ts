@@ -0,0 +1,138 @@
+/**
+ * @file Ice.ts
+ * @description Represents a sheet of ice lying on a platform.
+ * Implemented as a static Box2D sensor just above the platform surface.
+ * While the player stands in it, speeding up, slowing down and turning
+ * around take much longer, so the player slides.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, PHYSICS } from "@constants";
+import Platform from "@entities/Platform";
+import type { SurfaceEffect } from "@entities/Player";
+import { gameState } from "@gameState";
+import {
+  STATIC,
+  b2BodyId,
+  b2CreateBody,
+  b2CreatePolygonShape,
+  b2DefaultBodyDef,
+  b2DefaultShapeDef,
+  b2MakeBox,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+
+export default class Ice
+  extends Phaser.GameObjects.Rectangle
+  implements SurfaceEffect
+{
+  scene: Phaser.Scene;
+  bodyId: InstanceType<typeof b2BodyId> | null = null;
+  /** Ice does not carry the player anywhere */
+  surfaceSpeed = 0;
+  traction: number = PHYSICS.TILES.ICE.TRACTION;
+
+  /**
+   * Declares what happens when other shapes touch ice.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on(
+      "sensorBegin",
+      "ice",
+      "player",
+      ({ iceInstance }, { playerInstance }) => {
+        playerInstance.enterSurface(iceInstance);
+      }
+    );
+    registry.on(
+      "sensorEnd",
+      "ice",
+      "player",
+      ({ iceInstance }, { playerInstance }) => {
+        playerInstance.leaveSurface(iceInstance);
+      }
+    );
+  }
+
+  /**
+   * Creates a sheet of ice lying on a platform.
+   *
+   * @param scene The scene to add the ice to.
+   * @param platform The platform the ice lies on.
+   * @param x The center x position of the sheet in pixels.
+   * @param width The width of the sheet in pixels.
+   */
+  constructor(
+    scene: Phaser.Scene,
+    platform: Platform,
+    x: number,
+    width: number
+  ) {
+    const { HEIGHT, COLOR, ALPHA } = ASSETS.TILES.ICE;
+    // Lay the sheet over the top of the platform art, under the duck's feet
+    super(
+      scene,
+      x,
+      platform.surfaceY + HEIGHT / 2,
+      width,
+      HEIGHT,
+      COLOR,
+      ALPHA
+    );
+    this.scene = scene;
+
+    this.scene.add.existing(this);
+    this.setDepth(1);
+    this.initPhysics(platform.surfaceY);
+  }
+
+  /**
+   * Creates the sensor that finds the player standing on the ice.
+   * @param surfaceY Y position of the platform surface in pixels
+   */
+  initPhysics(surfaceY: number) {
+    const sensorHeight = PHYSICS.TILES.SURFACE_SENSOR_HEIGHT;
+    const bodyDef = {
+      ...b2DefaultBodyDef(),
+      type: STATIC,
+      position: new b2Vec2(
+        this.x / PHYSICS.SCALE,
+        -(surfaceY - sensorHeight / 2) / PHYSICS.SCALE
+      ),
+    };
+
+    const bodyId = b2CreateBody(gameState.worldId, bodyDef);
+    this.bodyId = bodyId;
+
+    if (!bodyId) {
+      console.error("Failed to create ice physics body!");
+      return;
+    }
+
+    const shapeDef = {
+      ...b2DefaultShapeDef(),
+      isSensor: true,
+      filter: createShapeFilter("SENSOR"),
+      density: 0,
+      friction: 0,
+      restitution: 0,
+      userData: {
+        type: "ice",
+        iceInstance: this,
+      } satisfies ShapeUserData,
+    };
+
+    const box = b2MakeBox(
+      this.width / (2 * PHYSICS.SCALE),
+      sensorHeight / (2 * PHYSICS.SCALE)
+    );
+    b2CreatePolygonShape(bodyId, shapeDef, box);
+  }
+}
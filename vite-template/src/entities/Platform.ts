@@ -2,23 +2,48 @@
  * @file Platform.ts
  * @description Represents a composite platform entity with a single physics body
  * and tiled visual representation.
+ * Platforms are static unless their level data gives them a behavior: moving
+ * platforms follow a waypoint path on a kinematic body and carry the duck,
+ * falling platforms drop after the duck stood on them for a while, and
+ * crumbling platforms break away tile by tile.
  */
+import * as Phaser from "phaser";
 
 import { ASSETS, PHYSICS } from "@constants";
+import type Player from "@entities/Player";
 import { gameState } from "@gameState";
 import {
+  KINEMATIC,
   STATIC,
+  b2Body_Disable,
+  b2Body_Enable,
+  b2Body_GetLinearVelocity,
+  b2Body_GetPosition,
+  b2Body_GetRotation,
+  b2Body_IsEnabled,
+  b2Body_SetLinearVelocity,
+  b2Body_SetTransform,
   b2DefaultBodyDef,
   b2DefaultShapeDef,
-  b2DefaultFilter,
   b2CreateBody,
+  b2DestroyShape,
   b2MakeBox,
+  b2MakeOffsetBox,
+  b2MakeRot,
   b2CreatePolygonShape,
   b2Vec2,
   AddSpriteToWorld,
 } from "@PhaserBox2D";
 import GameScene from "@scenes/GameScene"; // Import GameScene for type hinting
 
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+import { PhysicsSprite } from "../lib/fixedTimestep";
+import { PlatformBehavior } from "../lib/levelFormat";
+
 export default class Platform {
   scene: GameScene;
   /** Box2D body identifier */
@@ -26,6 +51,64 @@ export default class Platform {
   /** Box2D shape identifier */
   shapeId: ReturnType<typeof b2CreatePolygonShape> | null = null;
   platformSprites: Phaser.GameObjects.Image[] = [];
+  /** Left edge of the platform in pixels */
+  left: number;
+  /** Right edge of the platform in pixels */
+  right: number;
+  /** Y position of the top collision surface in pixels */
+  surfaceY: number;
+  /** Whether the player can jump up through the platform and drop down through it */
+  oneWay: boolean;
+  /** How the platform moves, falls or crumbles; null for a static platform */
+  behavior: PlatformBehavior | null;
+  /** Invisible sprite following the body, drawn interpolated when the platform moves */
+  physicsSprite: PhysicsSprite;
+  /** Body position the platform spawned at, in meters */
+  private startPosition: InstanceType<typeof b2Vec2>;
+  // Path of a moving platform in meters, starting at startPosition
+  private waypoints: InstanceType<typeof b2Vec2>[] = [];
+  // Waypoint a moving platform is heading for, and which way it walks the path
+  private waypointIndex = 1;
+  private pathDirection = 1;
+  // Seconds the duck has stood on a falling or crumbling platform without
+  // stepping off; stepping off before the delay starts it over
+  private standTimer = 0;
+  private isFalling = false;
+  // Tiles a crumbling platform has lost from its left end, and the seconds to the next one
+  private crumbledTiles = 0;
+  private crumbleTimer = 0;
+  // Shape definition and size, kept to rebuild the box of a crumbling platform
+  private shapeDef: ReturnType<typeof b2DefaultShapeDef>;
+  private width: number;
+  private halfHeight: number;
+  private tileWidth: number;
+  // Tile positions relative to the body position, in pixels
+  private tileOffsets: { x: number; y: number }[] = [];
+
+  /**
+   * Declares how other shapes collide with platforms.
+   * The player only collides with a one-way platform while landing on it
+   * from above.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.onPreSolve(
+      "platform",
+      "player",
+      ({ platformInstance }, { playerInstance }, { normal, separation }) => {
+        if (!platformInstance.oneWay) return true;
+
+        // Only the top face holds the player, and only until the feet
+        // have sunk further into it than a landing would
+        return (
+          normal !== null &&
+          normal.y >= PHYSICS.PLAYER.GROUND_PROBE.MIN_NORMAL_Y &&
+          separation * PHYSICS.SCALE >= -PHYSICS.PLATFORM.ONE_WAY_TOLERANCE &&
+          playerInstance.canLandOn(platformInstance)
+        );
+      }
+    );
+  }
 
   /**
    * Creates a composite platform entity.
@@ -35,15 +118,24 @@ export default class Platform {
    * @param centerY The center y position of the entire platform in pixels.
    * @param width The total width of the platform in pixels.
    * @param middleTileCount The number of middle section tiles.
+   * @param oneWay Whether the player passes through the platform from below.
+   * @param behavior How the platform moves, falls or crumbles; static when absent.
    */
   constructor(
     scene: GameScene,
     centerX: number,
     centerY: number,
     width: number,
-    middleTileCount: number
+    middleTileCount: number,
+    oneWay = false,
+    behavior?: PlatformBehavior
   ) {
     this.scene = scene;
+    this.oneWay = oneWay;
+    this.behavior = behavior ?? null;
+    this.width = width;
+    this.left = centerX - width / 2;
+    this.right = centerX + width / 2;
 
     // --- Physics Body Creation ---
     const tileHeight = this.scene.textures.getFrame(
@@ -55,12 +147,16 @@ export default class Platform {
     const worldId = gameState.worldId;
     // Calculate offset for better collision detection
     // Move the collision box slightly upward to create a better surface for the player
-    const offsetY = (tileHeight * 0.25) / PHYSICS.SCALE; // Increased offset for better top collision
+    const offsetY =
+      (tileHeight * PHYSICS.PLATFORM.COLLISION_OFFSET) / PHYSICS.SCALE; // Increased offset for better top collision
 
     // Create body definition with the position offset applied directly
+    // Moving and falling platforms are driven by their velocity
+    const isKinematic =
+      behavior?.type === "moving" || behavior?.type === "falling";
     const bodyDef = {
       ...b2DefaultBodyDef(),
-      type: STATIC,
+      type: isKinematic ? KINEMATIC : STATIC,
       // Apply offset to the body position itself
       position: new b2Vec2(
         centerX / PHYSICS.SCALE,
@@ -73,6 +169,7 @@ export default class Platform {
     // Create the body
     const bodyId = b2CreateBody(worldId, bodyDef);
     this.bodyId = bodyId;
+    this.startPosition = bodyDef.position;
 
     // Create shape definition with high friction
     const shapeDef = {
@@ -80,19 +177,28 @@ export default class Platform {
       density: 0, // Static bodies have 0 density
       friction: 5.0, // Higher friction for better stability
       restitution: 0.0, // No bounce at all
-      userData: { type: "platform" }, // Important for collision identification
+      userData: {
+        type: "platform",
+        platformInstance: this,
+      } satisfies ShapeUserData, // Important for collision identification
       isSensor: false, // Explicitly ensure it's not a sensor
       enableContactEvents: true, // Enable contact events for the platform
-      filter: b2DefaultFilter(),
+      enablePreSolveEvents: oneWay, // Lets the player pass through from below
+      filter: createShapeFilter("PLATFORM"),
     };
+    this.shapeDef = shapeDef;
 
     // Create box shape with proper scaling for Box2D (in meters)
     const halfWidth = width / (2 * PHYSICS.SCALE);
 
     // Increase the collision height to prevent tunneling
     // Use a more moderate height scale to avoid over-extension
-    const heightScale = 1.2; // Slightly smaller height scale to focus on top surface
+    const heightScale = PHYSICS.PLATFORM.COLLISION_HEIGHT_SCALE; // Slightly smaller height scale to focus on top surface
     const halfHeight = (tileHeight * heightScale) / (2 * PHYSICS.SCALE);
+    this.halfHeight = halfHeight;
+
+    // Top of the collision box, used to rest other entities on this platform
+    this.surfaceY = centerY - (offsetY + halfHeight) * PHYSICS.SCALE;
 
     // Create a standard box shape (no offset in the shape itself)
     const box = b2MakeBox(halfWidth, halfHeight);
@@ -105,13 +211,18 @@ export default class Platform {
       ASSETS.ATLAS,
       ASSETS.PLATFORM.MIDDLE
     ).width;
+    this.tileWidth = tileWidth;
     const startX = centerX - width / 2; // Left edge of the platform
 
     // Create a base sprite for physics visualization (will be invisible)
     // This sprite will be connected to the physics body
-    const physicsSprite = this.scene.add.sprite(centerX, centerY, "__WHITE");
+    const physicsSprite = Object.assign(
+      this.scene.add.sprite(centerX, centerY, "__WHITE"),
+      { bodyId }
+    );
     physicsSprite.setVisible(false); // Hide the sprite
     physicsSprite.setScale(width / 32, (tileHeight * heightScale) / 32); // Match the physics body dimensions
+    this.physicsSprite = physicsSprite;
 
     // Connect the physics body to this sprite
     AddSpriteToWorld(worldId, physicsSprite, { bodyId });
@@ -146,5 +257,290 @@ export default class Platform {
       ASSETS.PLATFORM.RIGHT
     );
     this.platformSprites.push(rightSprite);
+
+    if (oneWay) {
+      this.platformSprites.forEach((sprite) =>
+        sprite.setTint(ASSETS.PLATFORM.ONE_WAY_TINT)
+      );
+    }
+
+    // Remember where the tiles sit on the body, so they can follow it
+    const bodyX = this.startPosition.x * PHYSICS.SCALE;
+    const bodyY = -this.startPosition.y * PHYSICS.SCALE;
+    this.tileOffsets = this.platformSprites.map((sprite) => ({
+      x: sprite.x - bodyX,
+      y: sprite.y - bodyY,
+    }));
+
+    if (behavior?.type === "moving") {
+      this.waypoints = [
+        this.startPosition,
+        ...behavior.path.map(
+          (point) =>
+            new b2Vec2(
+              this.startPosition.x + point.x / PHYSICS.SCALE,
+              this.startPosition.y - point.y / PHYSICS.SCALE
+            )
+        ),
+      ];
+    }
+  }
+
+  /**
+   * Whether the body can move, so the platform has to be drawn interpolated.
+   */
+  get isMovable(): boolean {
+    return (
+      this.behavior?.type === "moving" || this.behavior?.type === "falling"
+    );
+  }
+
+  /**
+   * Advances the behavior of the platform by one physics step.
+   * Moving platforms hold still unless the game is being played.
+   * @param stepSeconds Length of the physics step
+   * @param player The player, to find out whether it stands on the platform
+   */
+  update(stepSeconds: number, player: Player) {
+    if (!this.bodyId || !this.behavior) return;
+
+    const surface = player.ground.surface;
+    const isStoodOn =
+      surface?.type === "platform" && surface.platformInstance === this;
+
+    switch (this.behavior.type) {
+      case "moving":
+        this.updateMoving(stepSeconds);
+        break;
+      case "falling":
+        this.updateFalling(stepSeconds, isStoodOn);
+        break;
+      case "crumbling":
+        this.updateCrumbling(stepSeconds, isStoodOn);
+        break;
+    }
+
+    this.updateBounds();
+  }
+
+  /**
+   * Moves the tile images to the interpolated body position.
+   * Call every frame, after the physics sprites were interpolated.
+   */
+  syncTiles() {
+    if (!this.isMovable) return;
+
+    // A falling platform shakes while the duck stands on it, about to fall
+    const shake =
+      this.standTimer > 0 && !this.isFalling
+        ? Phaser.Math.FloatBetween(-1, 1) * PHYSICS.PLATFORM.FALLING.SHAKE
+        : 0;
+
+    this.platformSprites.forEach((sprite, index) => {
+      const offset = this.tileOffsets[index];
+      sprite.x = this.physicsSprite.x + offset.x + shake;
+      sprite.y = this.physicsSprite.y + offset.y;
+    });
+  }
+
+  /**
+   * Puts the platform back where and how it spawned.
+   */
+  reset() {
+    if (!this.bodyId) return;
+
+    this.scene.tweens.killTweensOf(this.platformSprites);
+    b2Body_SetTransform(
+      this.bodyId,
+      this.startPosition,
+      b2Body_GetRotation(this.bodyId)
+    );
+    b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(0, 0));
+    if (!b2Body_IsEnabled(this.bodyId)) {
+      b2Body_Enable(this.bodyId);
+    }
+
+    this.waypointIndex = 1;
+    this.pathDirection = 1;
+    this.standTimer = 0;
+    this.isFalling = false;
+    this.crumbleTimer = 0;
+    if (this.crumbledTiles > 0) {
+      this.crumbledTiles = 0;
+      this.rebuildShape();
+    }
+
+    const bodyX = this.startPosition.x * PHYSICS.SCALE;
+    const bodyY = -this.startPosition.y * PHYSICS.SCALE;
+    this.physicsSprite.setPosition(bodyX, bodyY);
+    this.platformSprites.forEach((sprite, index) => {
+      const offset = this.tileOffsets[index];
+      sprite.setPosition(bodyX + offset.x, bodyY + offset.y);
+      sprite.setAlpha(1);
+      sprite.setVisible(true);
+    });
+
+    this.updateBounds();
+  }
+
+  /**
+   * Steers a moving platform towards its next waypoint.
+   * @param stepSeconds Length of the physics step
+   */
+  private updateMoving(stepSeconds: number) {
+    if (!this.bodyId || this.behavior?.type !== "moving") return;
+
+    if (!gameState.isPlaying) {
+      b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(0, 0));
+      return;
+    }
+
+    const speed =
+      (this.behavior.speed ?? PHYSICS.PLATFORM.MOVING.SPEED) / PHYSICS.SCALE;
+    const position = b2Body_GetPosition(this.bodyId);
+    let target = this.waypoints[this.waypointIndex];
+    let distance = Math.hypot(target.x - position.x, target.y - position.y);
+
+    // Reaching the waypoint within the next step: aim for the one after it
+    if (distance <= speed * stepSeconds) {
+      this.advanceWaypoint();
+      target = this.waypoints[this.waypointIndex];
+      distance = Math.hypot(target.x - position.x, target.y - position.y);
+    }
+
+    const travel = Math.min(speed, distance / stepSeconds);
+    const velocity =
+      distance > 0
+        ? new b2Vec2(
+            ((target.x - position.x) / distance) * travel,
+            ((target.y - position.y) / distance) * travel
+          )
+        : new b2Vec2(0, 0);
+    b2Body_SetLinearVelocity(this.bodyId, velocity);
+  }
+
+  /**
+   * Picks the next waypoint, going around a loop or back along the path.
+   */
+  private advanceWaypoint() {
+    if (this.behavior?.type !== "moving") return;
+
+    const count = this.waypoints.length;
+    if (this.behavior.loop) {
+      this.waypointIndex = (this.waypointIndex + 1) % count;
+      return;
+    }
+
+    const next = this.waypointIndex + this.pathDirection;
+    if (next < 0 || next >= count) {
+      this.pathDirection = -this.pathDirection;
+    }
+    this.waypointIndex += this.pathDirection;
+  }
+
+  /**
+   * Lets a falling platform drop once the duck stood on it long enough,
+   * and removes it after it fell out of sight.
+   * @param stepSeconds Length of the physics step
+   * @param isStoodOn Whether the duck stands on the platform
+   */
+  private updateFalling(stepSeconds: number, isStoodOn: boolean) {
+    if (!this.bodyId || this.behavior?.type !== "falling") return;
+
+    if (!this.isFalling) {
+      this.standTimer = isStoodOn ? this.standTimer + stepSeconds : 0;
+      const delay = this.behavior.delay ?? PHYSICS.PLATFORM.FALLING.DELAY;
+      this.isFalling = this.standTimer > 0 && this.standTimer >= delay;
+      return;
+    }
+
+    const { MAX_SPEED, FALL_DISTANCE } = PHYSICS.PLATFORM.FALLING;
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    const velocityY = Math.max(
+      velocity.y + PHYSICS.GRAVITY.y * stepSeconds,
+      -MAX_SPEED / PHYSICS.SCALE
+    );
+    b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(0, velocityY));
+
+    const fallen =
+      (this.startPosition.y - b2Body_GetPosition(this.bodyId).y) *
+      PHYSICS.SCALE;
+    if (fallen > FALL_DISTANCE && b2Body_IsEnabled(this.bodyId)) {
+      b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(0, 0));
+      b2Body_Disable(this.bodyId);
+      this.platformSprites.forEach((sprite) => sprite.setVisible(false));
+    }
+  }
+
+  /**
+   * Breaks a crumbling platform away tile by tile from its left end, once
+   * the duck stood on it long enough.
+   * @param stepSeconds Length of the physics step
+   * @param isStoodOn Whether the duck stands on the platform
+   */
+  private updateCrumbling(stepSeconds: number, isStoodOn: boolean) {
+    if (this.behavior?.type !== "crumbling") return;
+
+    const tileCount = this.platformSprites.length;
+    if (this.crumbledTiles >= tileCount) return;
+
+    const delay = this.behavior.delay ?? PHYSICS.PLATFORM.CRUMBLING.DELAY;
+    if (this.standTimer < delay) {
+      this.standTimer = isStoodOn ? this.standTimer + stepSeconds : 0;
+      return;
+    }
+
+    this.crumbleTimer -= stepSeconds;
+    if (this.crumbleTimer > 0) return;
+    this.crumbleTimer = PHYSICS.PLATFORM.CRUMBLING.TILE_INTERVAL;
+
+    const { TILE_DROP, TILE_FADE_DURATION } = PHYSICS.PLATFORM.CRUMBLING;
+    const tile = this.platformSprites[this.crumbledTiles];
+    this.scene.tweens.add({
+      targets: tile,
+      y: tile.y + TILE_DROP,
+      alpha: 0,
+      duration: TILE_FADE_DURATION,
+      onComplete: () => tile.setVisible(false),
+    });
+
+    this.crumbledTiles++;
+    this.rebuildShape();
+  }
+
+  /**
+   * Replaces the collision box with one covering the tiles that are left.
+   */
+  private rebuildShape() {
+    if (!this.bodyId) return;
+
+    if (this.shapeId) {
+      b2DestroyShape(this.shapeId);
+      this.shapeId = null;
+    }
+
+    const removed = this.crumbledTiles * this.tileWidth;
+    if (removed >= this.width) return;
+
+    const box = b2MakeOffsetBox(
+      (this.width - removed) / (2 * PHYSICS.SCALE),
+      this.halfHeight,
+      new b2Vec2(removed / (2 * PHYSICS.SCALE), 0),
+      b2MakeRot(0)
+    );
+    this.shapeId = b2CreatePolygonShape(this.bodyId, this.shapeDef, box);
+  }
+
+  /**
+   * Refreshes the edges and surface from the current body position.
+   */
+  private updateBounds() {
+    if (!this.bodyId) return;
+
+    const position = b2Body_GetPosition(this.bodyId);
+    const x = position.x * PHYSICS.SCALE;
+    this.left = x - this.width / 2 + this.crumbledTiles * this.tileWidth;
+    this.right = x + this.width / 2;
+    this.surfaceY = -(position.y + this.halfHeight) * PHYSICS.SCALE;
   }
 }
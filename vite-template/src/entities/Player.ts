@@ -8,6 +8,7 @@
 import * as Phaser from "phaser";
 
 import { ASSETS, PHYSICS, ANIMATION } from "@constants";
+import type Platform from "@entities/Platform";
 import { gameState } from "@gameState";
 // Runtime values only
 import {
@@ -27,9 +28,29 @@ import {
   b2Body_SetGravityScale,
   b2BodyId,
   b2Body_SetAwake,
+  b2Body_GetPosition,
+  b2Shape_GetBody,
+  b2Shape_GetUserData,
+  b2Shape_IsSensor,
+  b2World_CastRay,
 } from "@PhaserBox2D";
-// Add import for GameScene
-import GameScene from "@scenes/GameScene";
+
+import {
+  ShapeUserData,
+  createQueryFilter,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+import { eventBus } from "../lib/eventBus";
+import { ABILITY_KEYS, AbilityKey } from "../lib/levelFormat";
+import { PlayerAbility, createAbility } from "../lib/playerAbilities";
+import { InputActions } from "../lib/playerInput";
+import {
+  PlayerEvents,
+  PlayerStateKey,
+  PlayerStateMachine,
+  PlayerStates,
+  getStateAnimation,
+} from "../lib/playerStateMachine";
 
 // Player state interface
 interface PlayerState {
@@ -37,6 +58,57 @@ interface PlayerState {
   isGrounded: boolean;
 }
 
+/**
+ * A surface that changes how the duck moves while standing on it, such as a
+ * conveyor belt or ice
+ */
+export interface SurfaceEffect {
+  /** Speed the surface carries the duck at in meters/second, positive to the right */
+  surfaceSpeed: number;
+  /** Fraction of the gap to the wanted speed closed per physics step, 1 for full grip */
+  traction: number;
+}
+
+/**
+ * What the foot probes found below the player after the latest physics step
+ */
+export interface GroundInfo {
+  /** Surface normal under the feet in Box2D axes (y up), zero in the air */
+  normal: { x: number; y: number };
+  /** User data of the shape under the feet, null in the air */
+  surface: ShapeUserData | null;
+  /**
+   * Velocity of the ground in meters/second, e.g. of a moving platform,
+   * including the belt speed of a conveyor; zero in the air
+   */
+  velocity: { x: number; y: number };
+  /** Grip of the ground, see SurfaceEffect.traction; 1 in the air */
+  traction: number;
+  /** Seconds since the player last stood on ground, 0 while grounded */
+  timeSinceGrounded: number;
+}
+
+/** Closest shape hit by one probe ray */
+interface ProbeHit {
+  normal: { x: number; y: number };
+  surface: GroundInfo["surface"];
+  velocity: GroundInfo["velocity"];
+  fraction: number;
+}
+
+/**
+ * Creates the ground info of a player that is not standing on anything
+ */
+function createAirborneGround(timeSinceGrounded: number): GroundInfo {
+  return {
+    normal: { x: 0, y: 0 },
+    surface: null,
+    velocity: { x: 0, y: 0 },
+    traction: 1,
+    timeSinceGrounded,
+  };
+}
+
 /**
  * Player class representing the duck character
  * Handles physics, animations, and controls
@@ -45,7 +117,28 @@ export default class Player extends Phaser.GameObjects.Sprite {
   scene: Phaser.Scene;
   bodyId: InstanceType<typeof b2BodyId> | null = null; // Corrected type to InstanceType
   playerState: PlayerState;
+  /** Ground found by the foot probes, refreshed by probeGround() */
+  ground: GroundInfo = createAirborneGround(0);
   startPosition: Phaser.Math.Vector2;
+  /** Where reset() puts the player: the start position, or the last checkpoint */
+  respawnPoint: Phaser.Math.Vector2;
+  // Half size of the collision box in meters
+  private halfWidth = 0;
+  private halfHeight = 0;
+  // Seconds left in which a buffered jump press still triggers a jump
+  private jumpBufferTimer = 0;
+  // Whether the player left the ground by jumping, which rules out a coyote jump
+  private hasJumped = false;
+  // Whether releasing jump can still cut the current jump short
+  private canCutJump = false;
+  // One-way platform the player is dropping through, until the feet are below it
+  private dropThroughPlatform: Platform | null = null;
+  // Conveyors and ice whose sensors the body overlaps, see enterSurface()
+  private surfaceEffects = new Set<SurfaceEffect>();
+  // Granted abilities, see grantAbility()
+  private abilities = new Map<AbilityKey, PlayerAbility>();
+  /** Movement state and animation, subscribe to its PlayerEvents */
+  stateMachine = new PlayerStateMachine();
 
   /**
    * Creates an instance of the Player.
@@ -59,6 +152,7 @@ export default class Player extends Phaser.GameObjects.Sprite {
 
     this.scene = scene;
     this.startPosition = new Phaser.Math.Vector2(x, y);
+    this.respawnPoint = this.startPosition.clone();
 
     // Initialize state
     this.playerState = {
@@ -80,6 +174,11 @@ export default class Player extends Phaser.GameObjects.Sprite {
       this.createAnimations();
     }
 
+    // Every state change plays the animation of the new state
+    this.stateMachine.on(PlayerEvents.STATE_CHANGED, (state: PlayerStateKey) =>
+      this.play(getStateAnimation(state))
+    );
+
     // Start with idle animation
     this.play(ASSETS.PLAYER.IDLE.KEY);
   }
@@ -173,21 +272,31 @@ export default class Player extends Phaser.GameObjects.Sprite {
 
   destroyPhysics() {
     if (this.bodyId) {
+      eventBus.emit("bodyDestroyed", { bodyId: this.bodyId });
       b2DestroyBody(this.bodyId);
       this.bodyId = null;
     }
   }
 
   /**
-   * Resets the player to initial position and state.
+   * Moves the respawn point, e.g. to a checkpoint
+   * @param x - Respawn x position in pixels
+   * @param y - Respawn y position in pixels
+   */
+  setRespawnPoint(x: number, y: number) {
+    this.respawnPoint.set(x, y);
+  }
+
+  /**
+   * Resets the player to the respawn point and initial state.
    * This is called during both initial spawn and when respawning after death.
    */
   reset() {
-    console.log("Starting player reset at position:", this.startPosition);
+    console.log("Starting player reset at position:", this.respawnPoint);
 
     // Set sprite position first
-    this.x = this.startPosition.x;
-    this.y = this.startPosition.y - 50; // Increased from 30 to 50 for more clearance
+    this.x = this.respawnPoint.x;
+    this.y = this.respawnPoint.y - 50; // Increased from 30 to 50 for more clearance
 
     // Completely recreate physics body to ensure all properties are properly reset
     this.destroyPhysics();
@@ -198,10 +307,16 @@ export default class Player extends Phaser.GameObjects.Sprite {
       isDead: false,
       isGrounded: false, // Start as not grounded, let physics determine this in the next update
     };
+    this.ground = createAirborneGround(0);
+    this.jumpBufferTimer = 0;
+    this.hasJumped = false;
+    this.canCutJump = false;
+    this.dropThroughPlatform = null;
+    this.surfaceEffects.clear();
+    this.abilities.forEach((ability) => ability.reset());
 
-    // Reset animation
-    this.anims.stop();
-    this.play(ASSETS.PLAYER.IDLE.KEY);
+    // Reset state and animation
+    this.stateMachine.reset();
 
     // Set the player to be visible again
     this.setVisible(true);
@@ -218,10 +333,8 @@ export default class Player extends Phaser.GameObjects.Sprite {
   initPhysics() {
     // Remove any existing physics body first
     if (this.bodyId) {
-      // Unregister from the map first
-      if (this.scene instanceof GameScene) {
-        (this.scene as GameScene).bodyIdToSpriteMap.delete(this.bodyId.index1);
-      }
+      // Announce the removal first
+      eventBus.emit("bodyDestroyed", { bodyId: this.bodyId });
       b2DestroyBody(this.bodyId);
       this.bodyId = null;
     }
@@ -242,7 +355,7 @@ export default class Player extends Phaser.GameObjects.Sprite {
       enableContactListener: true, // Make sure contact events are enabled
       allowSleep: false, // Prevent the body from sleeping
       bullet: true, // Enable continuous collision detection for accurate collisions
-      linearDamping: 0.5, // Increased damping for better platform landing
+      linearDamping: PHYSICS.PLAYER.LINEAR_DAMPING, // Increased damping for better platform landing
     };
 
     const bodyId = b2CreateBody(gameState.worldId, bodyDef);
@@ -262,17 +375,25 @@ export default class Player extends Phaser.GameObjects.Sprite {
 
     // Create a box shape with scaled dimensions
     // Box2D uses half-width/height in meters
-    const halfWidth = (this.width * 0.6) / 2 / PHYSICS.SCALE; // Slightly smaller than sprite width
-    const halfHeight = (this.height * 0.8) / 2 / PHYSICS.SCALE; // Slightly smaller than sprite height
+    const bodyWidth = this.width * PHYSICS.PLAYER.BODY_SCALE.x; // Slightly smaller than sprite width
+    const bodyHeight = this.height * PHYSICS.PLAYER.BODY_SCALE.y; // Slightly smaller than sprite height
+    const halfWidth = bodyWidth / 2 / PHYSICS.SCALE;
+    const halfHeight = bodyHeight / 2 / PHYSICS.SCALE;
+    this.halfWidth = halfWidth;
+    this.halfHeight = halfHeight;
 
     // Create the shape definition
     const shapeDef = {
       ...b2DefaultShapeDef(),
-      density: 1.0, // Normal density
+      density: PHYSICS.PLAYER.DENSITY, // Normal density
       friction: 0.6, // Increased friction to prevent sliding off platforms
       restitution: 0.0, // No bounce
-      userData: { type: "player" }, // Important for collision identification
+      userData: {
+        type: "player",
+        playerInstance: this,
+      } satisfies ShapeUserData, // Important for collision identification
       isSensor: false, // Explicitly ensure it's not a sensor
+      filter: createShapeFilter("PLAYER"),
       enableContactEvents: true, // Enable contact events for the player
     };
 
@@ -283,14 +404,8 @@ export default class Player extends Phaser.GameObjects.Sprite {
     // Add the sprite to the physics world for updates
     AddSpriteToWorld(gameState.worldId, this, { bodyId });
 
-    // Register this player's bodyId and sprite instance in the GameScene map
-    if (this.bodyId && this.scene instanceof GameScene) {
-      (this.scene as GameScene).bodyIdToSpriteMap.set(this.bodyId.index1, this);
-      console.log(
-        "Player registered in bodyIdToSpriteMap with index:",
-        this.bodyId.index1
-      );
-    }
+    // Announce this player's bodyId and sprite instance
+    eventBus.emit("bodyCreated", { bodyId, sprite: this });
 
     // Explicitly wake up the body to ensure it's active for immediate collision detection
     if (this.bodyId) {
@@ -303,8 +418,8 @@ export default class Player extends Phaser.GameObjects.Sprite {
     // Log shape creation
     console.log("Player physics body and shape created:", {
       bodyId,
-      width: this.width * 0.6, // Actual collision width being used
-      height: this.height * 0.8, // Actual collision height being used
+      width: bodyWidth, // Actual collision width being used
+      height: bodyHeight, // Actual collision height being used
       halfWidth,
       halfHeight,
       scale: PHYSICS.SCALE,
@@ -321,41 +436,284 @@ export default class Player extends Phaser.GameObjects.Sprite {
     // Don't update if the state is the same
     if (this.playerState.isGrounded === grounded) return;
 
-    // Set the internal state
+    // Set the internal state, the state machine picks it up in update()
     this.playerState.isGrounded = grounded;
 
-    // If we just landed, make sure animations reflect this immediately
-    if (grounded && this.bodyId) {
-      const currentVelocity = b2Body_GetLinearVelocity(this.bodyId);
-      const isMoving =
-        Math.abs(currentVelocity.x) >
-        PHYSICS.PLAYER.MOVE_THRESHOLD / PHYSICS.SCALE;
+    // Log for debugging
+    console.log(`Player.setGrounded: ${grounded}`);
+  }
+
+  /**
+   * Find the ground below the player by casting rays down from the left foot,
+   * the center and the right foot. Called after every physics step, so the
+   * grounded state never depends on which contact events Box2D reported.
+   * @param stepSeconds - Length of the physics step that just ran
+   */
+  probeGround(stepSeconds: number) {
+    if (!this.bodyId) return;
 
-      // Set appropriate animation when landing
-      if (isMoving) {
-        this.play(ASSETS.PLAYER.RUN.KEY);
-      } else {
-        this.play(ASSETS.PLAYER.IDLE.KEY);
+    const { DISTANCE, SKIN, FOOT_INSET, MIN_NORMAL_Y, MAX_RISE_SPEED } =
+      PHYSICS.PLAYER.GROUND_PROBE;
+    const position = b2Body_GetPosition(this.bodyId);
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+
+    // Stop dropping through a one-way platform once the feet are below it
+    if (
+      this.dropThroughPlatform &&
+      !this.isAbovePlatform(this.dropThroughPlatform)
+    ) {
+      this.dropThroughPlatform = null;
+    }
+
+    // Start slightly inside the body so ground we are sinking into is found
+    const skin = SKIN / PHYSICS.SCALE;
+    const originY = position.y - this.halfHeight + skin;
+    const translation = new b2Vec2(0, -(skin + DISTANCE / PHYSICS.SCALE));
+
+    let closest: ProbeHit | null = null;
+    for (const side of [-1, 0, 1]) {
+      const originX = position.x + side * this.halfWidth * FOOT_INSET;
+      const hit = this.castProbeRay(new b2Vec2(originX, originY), translation);
+      if (hit && (!closest || hit.fraction < closest.fraction)) {
+        closest = hit;
       }
+    }
 
-      // When we land, apply a small downward force to ensure stable contact
-      if (this.bodyId) {
-        const stabilizeImpulse = new b2Vec2(0, -0.05);
-        b2Body_ApplyLinearImpulseToCenter(this.bodyId, stabilizeImpulse, true);
+    // Walls and steep slopes are not ground, and neither is anything we
+    // are still rising past after a jump. Rising with a lifting platform is fine.
+    const grounded =
+      closest !== null &&
+      closest.normal.y >= MIN_NORMAL_Y &&
+      velocity.y - closest.velocity.y <= MAX_RISE_SPEED;
+
+    if (grounded && closest) {
+      // Conveyors and ice under the feet change how the ground moves the duck
+      let surfaceSpeed = 0;
+      let traction = 1;
+      for (const effect of this.surfaceEffects) {
+        surfaceSpeed += effect.surfaceSpeed / this.surfaceEffects.size;
+        traction = Math.min(traction, effect.traction);
       }
+
+      this.hasJumped = false;
+      this.ground = {
+        normal: closest.normal,
+        surface: closest.surface,
+        velocity: {
+          x: closest.velocity.x + surfaceSpeed,
+          y: closest.velocity.y,
+        },
+        traction,
+        timeSinceGrounded: 0,
+      };
+    } else {
+      this.ground = createAirborneGround(
+        this.ground.timeSinceGrounded + stepSeconds
+      );
     }
 
-    // Log for debugging
-    console.log(`Player.setGrounded: ${grounded}`);
+    this.setGrounded(grounded);
+  }
+
+  /**
+   * Find a platform wall directly beside the player by casting rays
+   * sideways from the upper and lower half of the body
+   * @returns -1 for a wall on the left, 1 on the right, 0 for none
+   */
+  getWallSide(): -1 | 0 | 1 {
+    if (!this.bodyId) return 0;
+
+    const { PROBE_DISTANCE, MIN_NORMAL_X } =
+      PHYSICS.PLAYER.ABILITIES.WALL_SLIDE;
+    const position = b2Body_GetPosition(this.bodyId);
+    const reach = this.halfWidth + PROBE_DISTANCE / PHYSICS.SCALE;
+
+    for (const side of [-1, 1] as const) {
+      for (const offsetY of [-0.5, 0.5]) {
+        const origin = new b2Vec2(
+          position.x,
+          position.y + offsetY * this.halfHeight
+        );
+        const hit = this.castProbeRay(origin, new b2Vec2(side * reach, 0));
+        if (
+          hit?.surface?.type === "platform" &&
+          !hit.surface.platformInstance.oneWay &&
+          hit.normal.x * side <= -MIN_NORMAL_X
+        ) {
+          return side;
+        }
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Whether the player can currently land on a one-way platform: not while
+   * rising, nor while dropping through it on purpose
+   * @param platform - The one-way platform
+   */
+  canLandOn(platform: Platform): boolean {
+    if (!this.bodyId || platform === this.dropThroughPlatform) return false;
+
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    const platformVelocity = platform.bodyId
+      ? b2Body_GetLinearVelocity(platform.bodyId)
+      : { y: 0 };
+    return (
+      velocity.y - platformVelocity.y <=
+      PHYSICS.PLAYER.GROUND_PROBE.MAX_RISE_SPEED
+    );
+  }
+
+  /**
+   * Whether the feet are no further below a platform's surface than a landing
+   * sinks them
+   * @param platform - The platform to compare with
+   */
+  private isAbovePlatform(platform: Platform): boolean {
+    if (!this.bodyId) return false;
+
+    const position = b2Body_GetPosition(this.bodyId);
+    const feetY = -(position.y - this.halfHeight) * PHYSICS.SCALE;
+    return feetY <= platform.surfaceY + PHYSICS.PLATFORM.ONE_WAY_TOLERANCE;
+  }
+
+  /**
+   * Cast a single probe ray and return the closest solid shape it hits,
+   * skipping sensors, the player's own body and one-way platforms the player
+   * passes through
+   */
+  private castProbeRay(
+    origin: InstanceType<typeof b2Vec2>,
+    translation: InstanceType<typeof b2Vec2>
+  ): ProbeHit | null {
+    let closest: ProbeHit | null = null;
+
+    b2World_CastRay(
+      gameState.worldId,
+      origin,
+      translation,
+      createQueryFilter("PLAYER"),
+      (
+        shapeId: unknown,
+        _point: unknown,
+        normal: { x: number; y: number },
+        fraction: number
+      ) => {
+        if (
+          b2Shape_IsSensor(shapeId) ||
+          b2Shape_GetBody(shapeId).index1 === this.bodyId?.index1
+        ) {
+          return -1; // Ignore this shape and keep the ray going
+        }
+
+        const surface = b2Shape_GetUserData(shapeId) as GroundInfo["surface"];
+        if (
+          surface?.type === "platform" &&
+          surface.platformInstance.oneWay &&
+          !(
+            this.canLandOn(surface.platformInstance) &&
+            this.isAbovePlatform(surface.platformInstance)
+          )
+        ) {
+          return -1;
+        }
+
+        const velocity = b2Body_GetLinearVelocity(b2Shape_GetBody(shapeId));
+        closest = {
+          normal: { x: normal.x, y: normal.y },
+          surface,
+          velocity: { x: velocity.x, y: velocity.y },
+          fraction,
+        };
+        return fraction; // Clip the ray so only closer shapes are reported
+      },
+      null
+    );
+
+    return closest;
+  }
+
+  /**
+   * Start feeling a conveyor or ice surface, once the body overlaps its sensor.
+   * It only applies while the player is grounded.
+   * @param effect - The surface
+   */
+  enterSurface(effect: SurfaceEffect) {
+    this.surfaceEffects.add(effect);
+  }
+
+  /**
+   * Stop feeling a surface again, once the body left its sensor
+   * @param effect - The surface
+   */
+  leaveSurface(effect: SurfaceEffect) {
+    this.surfaceEffects.delete(effect);
+  }
+
+  /**
+   * Grant an ability, e.g. for the level or from a power-up.
+   * Granting an ability the player already has does nothing.
+   * @param key - The ability to grant
+   */
+  grantAbility(key: AbilityKey) {
+    if (!this.abilities.has(key)) {
+      this.abilities.set(key, createAbility(key));
+    }
+  }
+
+  /**
+   * Take an ability away again
+   * @param key - The ability to revoke
+   */
+  revokeAbility(key: AbilityKey) {
+    this.abilities.get(key)?.reset();
+    this.abilities.delete(key);
+  }
+
+  /**
+   * Whether the player currently has an ability
+   * @param key - The ability to check
+   */
+  hasAbility(key: AbilityKey): boolean {
+    return this.abilities.has(key);
+  }
+
+  /**
+   * Replace all abilities with the given set, e.g. when a level starts
+   * @param keys - The abilities the player should have
+   */
+  setAbilities(keys: readonly AbilityKey[]) {
+    for (const key of ABILITY_KEYS) {
+      if (keys.includes(key)) {
+        this.grantAbility(key);
+      } else {
+        this.revokeAbility(key);
+      }
+    }
   }
 
   /**
-   * Apply jump impulse if player is grounded
+   * Whether the player may jump now: while grounded, or shortly after
+   * walking off a ledge (coyote time)
+   */
+  canJump(): boolean {
+    if (this.playerState.isDead) return false;
+    if (this.playerState.isGrounded) return true;
+
+    return (
+      !this.hasJumped &&
+      this.ground.timeSinceGrounded <= PHYSICS.PLAYER.COYOTE_TIME
+    );
+  }
+
+  /**
+   * Apply jump impulse if player is grounded or within coyote time
    * @returns true if jump successful, false otherwise
    */
   jump(): boolean {
-    // Only jump if we have a physics body and are grounded
-    if (!this.bodyId || !this.playerState.isGrounded) {
+    // Only jump if we have a physics body and are allowed to jump
+    if (!this.bodyId || !this.canJump()) {
       console.log("Jump failed - not grounded or no body");
       return false;
     }
@@ -363,21 +721,13 @@ export default class Player extends Phaser.GameObjects.Sprite {
     // Get current velocity
     const velocity = b2Body_GetLinearVelocity(this.bodyId);
 
-    // Only jump if we're not already moving upward significantly
-    if (velocity.y < PHYSICS.PLAYER.JUMP_THRESHOLD) {
-      // Apply jump impulse - slightly stronger to ensure good platform clearance
-      const jumpImpulse = new b2Vec2(0, PHYSICS.PLAYER.JUMP_FORCE * 1.3);
-      b2Body_ApplyLinearImpulseToCenter(this.bodyId, jumpImpulse, true);
-
-      // Set grounded to false since we're jumping
-      this.playerState.isGrounded = false;
-
-      // Play jump animation
-      this.play(ASSETS.PLAYER.JUMP.KEY);
-
+    // Only jump if we're not already moving upward significantly,
+    // apart from rising with the ground
+    if (velocity.y - this.ground.velocity.y < PHYSICS.PLAYER.JUMP_THRESHOLD) {
+      this.startJump();
       console.log(
         "Player jumped with impulse:",
-        PHYSICS.PLAYER.JUMP_FORCE * 1.3
+        PHYSICS.PLAYER.JUMP_FORCE * PHYSICS.PLAYER.JUMP_IMPULSE_MULTIPLIER
       );
       return true;
     }
@@ -385,6 +735,102 @@ export default class Player extends Phaser.GameObjects.Sprite {
     return false;
   }
 
+  /**
+   * Apply the jump impulse without checking whether a jump is allowed.
+   * Used by jump() and by abilities that jump in mid-air.
+   * @param velocityX - Horizontal velocity in meters/second to jump with, defaults to the current one
+   */
+  startJump(velocityX?: number) {
+    if (!this.bodyId) return;
+
+    // Drop any fall speed first, so a coyote or air jump is as high as a normal one
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    b2Body_SetLinearVelocity(
+      this.bodyId,
+      new b2Vec2(velocityX ?? velocity.x, 0)
+    );
+
+    // Apply jump impulse - slightly stronger to ensure good platform clearance
+    const jumpImpulse = new b2Vec2(
+      0,
+      PHYSICS.PLAYER.JUMP_FORCE * PHYSICS.PLAYER.JUMP_IMPULSE_MULTIPLIER
+    );
+    b2Body_ApplyLinearImpulseToCenter(this.bodyId, jumpImpulse, true);
+
+    // Set grounded to false since we're jumping
+    this.playerState.isGrounded = false;
+    this.hasJumped = true;
+    this.canCutJump = true;
+
+    this.stateMachine.transition(PlayerStates.JUMP);
+  }
+
+  /**
+   * Launch the player upward, e.g. after stomping an enemy
+   * @param velocityY - Upward velocity in meters/second
+   */
+  bounce(velocityY: number) {
+    if (!this.bodyId || this.playerState.isDead) return;
+
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(velocity.x, velocityY));
+
+    this.playerState.isGrounded = false;
+    this.hasJumped = true;
+    this.canCutJump = false;
+    this.stateMachine.transition(PlayerStates.JUMP);
+  }
+
+  /**
+   * Cut the jump short when jump is released while still rising,
+   * so a tap gives a short hop and holding gives the full jump
+   */
+  private cutJump() {
+    if (!this.bodyId) return;
+
+    this.canCutJump = false;
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    if (velocity.y > 0) {
+      b2Body_SetLinearVelocity(
+        this.bodyId,
+        new b2Vec2(velocity.x, velocity.y * PHYSICS.PLAYER.JUMP_CUT_MULTIPLIER)
+      );
+    }
+  }
+
+  /**
+   * Scale gravity by the phase of the jump: lighter near the apex
+   * and heavier while falling
+   */
+  private applyJumpGravity() {
+    if (!this.bodyId || this.playerState.isDead) return;
+
+    const { APEX_SPEED_THRESHOLD, APEX_GRAVITY_SCALE, FALL_GRAVITY_SCALE } =
+      PHYSICS.PLAYER;
+    const velocityY = b2Body_GetLinearVelocity(this.bodyId).y;
+
+    let gravityScale = 1;
+    if (!this.playerState.isGrounded) {
+      if (Math.abs(velocityY) < APEX_SPEED_THRESHOLD) {
+        gravityScale = APEX_GRAVITY_SCALE;
+      } else if (velocityY < 0) {
+        gravityScale = FALL_GRAVITY_SCALE;
+      }
+    }
+    b2Body_SetGravityScale(this.bodyId, gravityScale);
+  }
+
+  /**
+   * Stop horizontal movement and return to idle, e.g. when the level is complete
+   */
+  halt() {
+    if (!this.bodyId) return;
+
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    b2Body_SetLinearVelocity(this.bodyId, new b2Vec2(0, velocity.y));
+    this.stateMachine.enter(PlayerStates.IDLE);
+  }
+
   /**
    * Kill the player (called when hitting enemies or death sensor)
    */
@@ -393,9 +839,8 @@ export default class Player extends Phaser.GameObjects.Sprite {
     if (!this.playerState.isDead) {
       this.playerState.isDead = true;
 
-      // Stop any ongoing animations and play death animation
-      this.anims.stop();
-      this.play(ASSETS.PLAYER.DEAD.KEY);
+      // Play the death animation and tell subscribers
+      this.stateMachine.transition(PlayerStates.DEAD);
 
       b2Body_SetAwake(this.bodyId, false);
       b2Body_SetGravityScale(this.bodyId, 0);
@@ -411,98 +856,134 @@ export default class Player extends Phaser.GameObjects.Sprite {
         hasPhysics: !!this.bodyId,
       });
 
-      // Call the GameScene's killPlayer method to show game over overlay
-      // Use a short delay to allow death animation to play first
-      this.scene.time.delayedCall(500, () => {
-        if (this.scene instanceof GameScene) {
-          (this.scene as GameScene).killPlayer();
-        }
-      });
+      // The scene ends the run once the death animation has played
+      eventBus.emit("playerDied", { x: this.x, y: this.y });
     }
   }
 
-  update(controls: Phaser.Types.Input.Keyboard.CursorKeys) {
+  /**
+   * Drives the player from the merged input actions for one physics step
+   * @param actions - Action state from keyboard, touch buttons and gamepad
+   * @param stepSeconds - Length of the physics step
+   */
+  update(actions: InputActions, stepSeconds: number) {
     if (!this.bodyId || gameState.isGameOver) return;
 
+    const abilities = [...this.abilities.values()];
+    abilities.forEach((ability) => ability.update(this, actions, stepSeconds));
+
     const currentVelocity = b2Body_GetLinearVelocity(this.bodyId);
     const bodyMass = b2Body_GetMass(this.bodyId);
 
-    let targetVelX = 0;
+    // Abilities such as dash take over horizontal movement while active
+    if (!abilities.some((ability) => ability.controlsMovement())) {
+      // Convert from pixels/second to meters/second for Box2D, and move
+      // along with the ground, e.g. a moving platform
+      const targetVelX =
+        (actions.moveX * PHYSICS.PLAYER.SPEED) / PHYSICS.SCALE +
+        this.ground.velocity.x;
+      if (actions.moveX < 0) {
+        this.setFlipX(true);
+      } else if (actions.moveX > 0) {
+        this.setFlipX(false);
+      }
+
+      // Ice only closes part of the gap each step, so the duck slides
+      const deltaVx = (targetVelX - currentVelocity.x) * this.ground.traction;
+      const impulseX = bodyMass * deltaVx;
 
-    if (controls.left?.isDown) {
-      // Convert from pixels/second to meters/second for Box2D
-      targetVelX = -PHYSICS.PLAYER.SPEED / PHYSICS.SCALE;
-      this.setFlipX(true);
-    } else if (controls.right?.isDown) {
-      // Convert from pixels/second to meters/second for Box2D
-      targetVelX = PHYSICS.PLAYER.SPEED / PHYSICS.SCALE;
-      this.setFlipX(false);
+      b2Body_ApplyLinearImpulseToCenter(
+        this.bodyId,
+        new b2Vec2(impulseX, 0),
+        true
+      );
     }
 
-    const deltaVx = targetVelX - currentVelocity.x;
-    const impulseX = bodyMass * deltaVx;
+    // Remember jump presses for a moment, so a press just before landing
+    // still jumps
+    if (actions.jumpPressed) {
+      this.jumpBufferTimer = PHYSICS.PLAYER.JUMP_BUFFER_TIME;
+    } else {
+      this.jumpBufferTimer = Math.max(0, this.jumpBufferTimer - stepSeconds);
+    }
 
-    b2Body_ApplyLinearImpulseToCenter(
-      this.bodyId,
-      new b2Vec2(impulseX, 0),
-      true
-    );
+    // Down plus jump drops through a one-way platform instead of jumping
+    const surface = this.ground.surface;
+    if (
+      this.jumpBufferTimer > 0 &&
+      actions.downHeld &&
+      this.playerState.isGrounded &&
+      surface?.type === "platform" &&
+      surface.platformInstance.oneWay
+    ) {
+      this.dropThroughPlatform = surface.platformInstance;
+      this.jumpBufferTimer = 0;
+      // Leaving on purpose, so no coyote jump back up
+      this.hasJumped = true;
+    }
 
-    const currentAnimKey = this.anims.currentAnim?.key;
-    const canJump = this.playerState.isGrounded;
+    // Handle jump input, letting abilities use presses the normal jump cannot
+    if (this.jumpBufferTimer > 0) {
+      const jumped = this.canJump()
+        ? this.jump()
+        : ABILITY_KEYS.some((key) => this.abilities.get(key)?.tryJump(this));
+      if (jumped) {
+        this.jumpBufferTimer = 0;
+      }
+    }
 
-    // Handle jump input
-    if (canJump && controls.up?.isDown) {
-      this.jump();
+    if (this.canCutJump && !actions.jumpHeld) {
+      this.cutJump();
     }
 
-    // Determine animation based on state and velocity
-    if (this.playerState.isDead) {
-      // Play death animation if not already playing
-      if (currentAnimKey !== ASSETS.PLAYER.DEAD.KEY) {
-        this.play(ASSETS.PLAYER.DEAD.KEY);
-      }
+    this.applyJumpGravity();
+    abilities.forEach((ability) => ability.constrain(this));
+
+    this.updateState(stepSeconds);
+  }
+
+  /**
+   * Pick the state for this step from the ground, the velocity and the
+   * active abilities, and move the state machine there
+   * @param stepSeconds - Length of the physics step
+   */
+  private updateState(stepSeconds: number) {
+    if (!this.bodyId || this.playerState.isDead) return;
+
+    this.stateMachine.update(stepSeconds);
+    const { state, stateTime, isAirborne } = this.stateMachine;
+
+    const velocity = b2Body_GetLinearVelocity(this.bodyId);
+    // Riding a moving platform is not running
+    const isMoving =
+      Math.abs(velocity.x - this.ground.velocity.x) >
+      PHYSICS.PLAYER.MOVE_THRESHOLD / PHYSICS.SCALE;
+    const abilityState = [...this.abilities.values()]
+      .map((ability) => ability.getState())
+      .find((abilityState) => abilityState !== null);
+
+    let nextState: PlayerStateKey;
+    if (abilityState) {
+      // An active ability such as a wall slide or dash picks the state
+      nextState = abilityState;
     } else if (!this.playerState.isGrounded) {
-      // We're in the air
-      if (currentVelocity.y > 0) {
-        // Moving upward (jumping)
-        if (currentAnimKey !== ASSETS.PLAYER.JUMP.KEY) {
-          this.play(ASSETS.PLAYER.JUMP.KEY);
-        }
-      } else {
-        // Moving downward (falling)
-        if (
-          currentAnimKey !== ASSETS.PLAYER.FALL.KEY &&
-          (!this.anims.isPlaying || currentAnimKey !== ASSETS.PLAYER.JUMP.KEY)
-        ) {
-          this.play(ASSETS.PLAYER.FALL.KEY);
-        }
-      }
+      // Only jump() and bounce() enter JUMP, anything else in the air falls
+      nextState =
+        state === PlayerStates.JUMP && velocity.y > 0
+          ? PlayerStates.JUMP
+          : PlayerStates.FALL;
+    } else if (isAirborne) {
+      nextState = PlayerStates.LAND;
+    } else if (
+      state === PlayerStates.LAND &&
+      !isMoving &&
+      stateTime < ANIMATION.LAND_DURATION
+    ) {
+      nextState = PlayerStates.LAND;
     } else {
-      // We're on the ground - just landed or already walking/idle
-      const isMoving =
-        Math.abs(currentVelocity.x) >
-        PHYSICS.PLAYER.MOVE_THRESHOLD / PHYSICS.SCALE;
-
-      // Just landed from a fall or jump
-      const justLanded =
-        currentAnimKey === ASSETS.PLAYER.FALL.KEY ||
-        (currentAnimKey === ASSETS.PLAYER.JUMP.KEY && !this.anims.isPlaying);
-
-      if (isMoving) {
-        // Running
-        if (currentAnimKey !== ASSETS.PLAYER.RUN.KEY || justLanded) {
-          this.play(ASSETS.PLAYER.RUN.KEY);
-        }
-      } else {
-        // Idle - play immediately when landing or transitioning from run
-        if (
-          currentAnimKey !== ASSETS.PLAYER.IDLE.KEY &&
-          (justLanded || currentAnimKey === ASSETS.PLAYER.RUN.KEY)
-        ) {
-          this.play(ASSETS.PLAYER.IDLE.KEY);
-        }
-      }
+      nextState = isMoving ? PlayerStates.RUN : PlayerStates.IDLE;
     }
+
+    this.stateMachine.enter(nextState);
   }
 }
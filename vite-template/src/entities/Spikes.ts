@@ -0,0 +1,115 @@
+/**
+ * @file Spikes.ts
+ * @description Represents a strip of spikes lying on a platform.
+ * Implemented as a static Box2D sensor a little smaller than the spike art,
+ * so only touching the spikes themselves kills the player.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, PHYSICS } from "@constants";
+import Platform from "@entities/Platform";
+import { gameState } from "@gameState";
+import {
+  STATIC,
+  b2BodyId,
+  b2CreateBody,
+  b2CreatePolygonShape,
+  b2DefaultBodyDef,
+  b2DefaultShapeDef,
+  b2MakeBox,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+
+export default class Spikes extends Phaser.GameObjects.TileSprite {
+  scene: Phaser.Scene;
+  bodyId: InstanceType<typeof b2BodyId> | null = null;
+
+  /**
+   * Declares what happens when other shapes touch a spike strip.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on(
+      "sensorBegin",
+      "spikes",
+      "player",
+      (_spikes, { playerInstance }) => {
+        // Player.kill() publishes playerDied, and the scene takes a life or ends the run
+        playerInstance.kill();
+      }
+    );
+  }
+
+  /**
+   * Creates a spike strip lying on a platform.
+   *
+   * @param scene The scene to add the spikes to.
+   * @param platform The platform the spikes lie on.
+   * @param x The center x position of the strip in pixels.
+   * @param width The width of the strip in pixels.
+   */
+  constructor(
+    scene: Phaser.Scene,
+    platform: Platform,
+    x: number,
+    width: number
+  ) {
+    const height = ASSETS.TILES.SPIKES.HEIGHT;
+    super(
+      scene,
+      x,
+      platform.surfaceY - height / 2,
+      width,
+      height,
+      ASSETS.TILES.SPIKES.KEY
+    );
+    this.scene = scene;
+
+    this.scene.add.existing(this);
+    this.setDepth(5);
+    this.initPhysics();
+  }
+
+  initPhysics() {
+    const bodyDef = {
+      ...b2DefaultBodyDef(),
+      type: STATIC,
+      position: new b2Vec2(this.x / PHYSICS.SCALE, -this.y / PHYSICS.SCALE),
+    };
+
+    const bodyId = b2CreateBody(gameState.worldId, bodyDef);
+    this.bodyId = bodyId;
+
+    if (!bodyId) {
+      console.error("Failed to create spikes physics body!");
+      return;
+    }
+
+    const shapeDef = {
+      ...b2DefaultShapeDef(),
+      isSensor: true,
+      filter: createShapeFilter("SENSOR"),
+      density: 0,
+      friction: 0,
+      restitution: 0,
+      userData: {
+        type: "spikes",
+        spikesInstance: this,
+      } satisfies ShapeUserData,
+    };
+
+    // Keep the deadly area inside the art, so grazing a spike tip is survivable
+    const inset = PHYSICS.TILES.SPIKES.HITBOX_INSET;
+    const box = b2MakeBox(
+      Math.max(this.width / 2 - inset, 1) / PHYSICS.SCALE,
+      Math.max(this.height / 2 - inset, 1) / PHYSICS.SCALE
+    );
+    b2CreatePolygonShape(bodyId, shapeDef, box);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * @file Spring.ts
+ * @description Represents a spring pad standing on a platform.
+ * Implemented as a static Box2D sensor. When the player touches it, the pad
+ * squashes and launches the player straight up, keeping the player's
+ * horizontal speed.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, PHYSICS } from "@constants";
+import Platform from "@entities/Platform";
+import type Player from "@entities/Player";
+import { gameState } from "@gameState";
+import {
+  STATIC,
+  b2BodyId,
+  b2CreateBody,
+  b2CreatePolygonShape,
+  b2DefaultBodyDef,
+  b2DefaultShapeDef,
+  b2MakeBox,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import {
+  CollisionRegistry,
+  ShapeUserData,
+  createShapeFilter,
+} from "../lib/collisionRegistry";
+import { settings } from "../lib/settings";
+
+export default class Spring extends Phaser.GameObjects.Sprite {
+  scene: Phaser.Scene;
+  bodyId: InstanceType<typeof b2BodyId> | null = null;
+  /** Upward speed the player is launched with, in pixels/second */
+  launchSpeed: number;
+
+  /**
+   * Declares what happens when other shapes touch a spring.
+   * @param registry The collision registry of the scene
+   */
+  static registerCollisions(registry: CollisionRegistry) {
+    registry.on(
+      "sensorBegin",
+      "spring",
+      "player",
+      ({ springInstance }, { playerInstance }) => {
+        springInstance.launch(playerInstance);
+      }
+    );
+  }
+
+  /**
+   * Creates a spring pad standing on a platform.
+   *
+   * @param scene The scene to add the spring to.
+   * @param platform The platform the spring stands on.
+   * @param x The x position of the spring in pixels.
+   * @param launchSpeed Upward speed the player is launched with in pixels/second.
+   */
+  constructor(
+    scene: Phaser.Scene,
+    platform: Platform,
+    x: number,
+    launchSpeed: number = PHYSICS.TILES.SPRING.LAUNCH_SPEED
+  ) {
+    super(scene, x, platform.surfaceY, ASSETS.TILES.SPRING.KEY);
+    this.scene = scene;
+    this.launchSpeed = launchSpeed;
+
+    // Stand the pad on the platform surface, so it squashes towards it
+    this.setOrigin(0.5, 1);
+
+    this.scene.add.existing(this);
+    this.setDepth(5);
+    this.initPhysics();
+  }
+
+  initPhysics() {
+    const bodyDef = {
+      ...b2DefaultBodyDef(),
+      type: STATIC,
+      position: new b2Vec2(
+        this.x / PHYSICS.SCALE,
+        -(this.y - this.height / 2) / PHYSICS.SCALE
+      ),
+    };
+
+    const bodyId = b2CreateBody(gameState.worldId, bodyDef);
+    this.bodyId = bodyId;
+
+    if (!bodyId) {
+      console.error("Failed to create spring physics body!");
+      return;
+    }
+
+    const shapeDef = {
+      ...b2DefaultShapeDef(),
+      isSensor: true,
+      filter: createShapeFilter("SENSOR"),
+      density: 0,
+      friction: 0,
+      restitution: 0,
+      userData: {
+        type: "spring",
+        springInstance: this,
+      } satisfies ShapeUserData,
+    };
+
+    const box = b2MakeBox(
+      this.width / (2 * PHYSICS.SCALE),
+      this.height / (2 * PHYSICS.SCALE)
+    );
+    b2CreatePolygonShape(bodyId, shapeDef, box);
+  }
+
+  /**
+   * Launches the player upwards and plays the squash, unless the player
+   * asked for reduced motion.
+   * @param player The player touching the spring
+   */
+  launch(player: Player) {
+    player.bounce(this.launchSpeed / PHYSICS.SCALE);
+    if (settings.get().reducedMotion) return;
+
+    const { SQUASH_SCALE, SQUASH_DURATION } = ASSETS.TILES.SPRING;
+    this.scene.tweens.killTweensOf(this);
+    this.setScale(1, SQUASH_SCALE);
+    this.scene.tweens.add({
+      targets: this,
+      scaleY: 1,
+      duration: SQUASH_DURATION,
+      ease: "Back.easeOut",
+    });
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * @file collisionRegistry.ts
+ * @description Dispatches Box2D sensor and contact events to handlers declared
+ * for pairs of shape types. Entities register what should happen when their
+ * shapes meet another type of shape, and the registry calls the handler with
+ * the two shapes in the order it was registered with, whichever order Box2D
+ * reported them in. Pre-solve handlers can also veto contacts before they
+ * are solved, e.g. for one-way platforms.
+ * It also builds the Box2D collision filters declared in PHYSICS.COLLISION,
+ * which decide which shapes meet at all.
+ */
+import { PHYSICS } from "@constants";
+import type Checkpoint from "@entities/Checkpoint";
+import type Coin from "@entities/Coin";
+import type Conveyor from "@entities/Conveyor";
+import type Crate from "@entities/Crate";
+import type Enemy from "@entities/Enemy";
+import type Finish from "@entities/Finish";
+import type Ice from "@entities/Ice";
+import type Platform from "@entities/Platform";
+import type Player from "@entities/Player";
+import type Spikes from "@entities/Spikes";
+import type Spring from "@entities/Spring";
+import {
+  b2DefaultFilter,
+  b2DefaultQueryFilter,
+  b2Shape_GetUserData,
+  b2Shape_IsValid,
+  b2World_GetContactEvents,
+  b2World_GetSensorEvents,
+  b2World_SetPreSolveCallback,
+  b2WorldId,
+} from "@PhaserBox2D";
+
+type b2WorldIdInstance = InstanceType<typeof b2WorldId>;
+
+/**
+ * User data attached to every Box2D shape, telling what the shape belongs to
+ */
+export type ShapeUserData =
+  | { type: "player"; playerInstance: Player }
+  | { type: "platform"; platformInstance: Platform }
+  | { type: "coin"; coinInstance: Coin }
+  | { type: "crate"; crateInstance: Crate }
+  | { type: "enemy"; enemyInstance: Enemy }
+  | { type: "finish"; finishInstance: Finish }
+  | { type: "checkpoint"; checkpointInstance: Checkpoint }
+  | { type: "spring"; springInstance: Spring }
+  | { type: "spikes"; spikesInstance: Spikes }
+  | { type: "conveyor"; conveyorInstance: Conveyor }
+  | { type: "ice"; iceInstance: Ice }
+  | { type: "deathSensor" };
+
+export type ShapeType = ShapeUserData["type"];
+
+/** The user data of one type of shape */
+export type ShapeUserDataOf<T extends ShapeType> = Extract<
+  ShapeUserData,
+  { type: T }
+>;
+
+/**
+ * Box2D events a handler can be registered for
+ */
+export type CollisionKind =
+  "sensorBegin" | "sensorEnd" | "contactBegin" | "contactEnd" | "contactHit";
+
+/**
+ * Details of a collision, oriented from the handler's first shape to its second
+ */
+export interface CollisionInfo {
+  shapeIdA: unknown;
+  shapeIdB: unknown;
+  /** Contact normal pointing from shape A to shape B, for contact begin and hit events */
+  normal: { x: number; y: number } | null;
+  /** Contact point in meters, for hit events */
+  point: { x: number; y: number } | null;
+  /** Speed the shapes approached each other with in meters/second, for hit events */
+  approachSpeed: number;
+  /** Largest separation of the contact points in meters, negative while overlapping, for pre-solve */
+  separation: number;
+}
+
+export type CollisionHandler<A extends ShapeType, B extends ShapeType> = (
+  a: ShapeUserDataOf<A>,
+  b: ShapeUserDataOf<B>,
+  info: CollisionInfo
+) => void;
+
+/**
+ * Decides whether a touching pair of shapes collides in this step.
+ * @returns false to let the shapes pass through each other
+ */
+export type PreSolveHandler<A extends ShapeType, B extends ShapeType> = (
+  a: ShapeUserDataOf<A>,
+  b: ShapeUserDataOf<B>,
+  info: CollisionInfo
+) => boolean;
+
+/** The parts of a Box2D manifold read by pre-solve handlers */
+interface PreSolveManifold {
+  normalX: number;
+  normalY: number;
+  pointCount: number;
+  points: { separation: number }[];
+}
+
+type AnyPreSolveHandler = (
+  a: ShapeUserData,
+  b: ShapeUserData,
+  info: CollisionInfo
+) => boolean;
+
+type AnyCollisionHandler = (
+  a: ShapeUserData,
+  b: ShapeUserData,
+  info: CollisionInfo
+) => void;
+
+export type CollisionFilterKey = keyof typeof PHYSICS.COLLISION.FILTERS;
+
+/**
+ * Creates the shape filter of an entity type, for its shape definitions.
+ * @param key The entity type in PHYSICS.COLLISION.FILTERS
+ */
+export function createShapeFilter(key: CollisionFilterKey) {
+  const { CATEGORY, MASK } = PHYSICS.COLLISION.FILTERS[key];
+  const filter = b2DefaultFilter();
+  filter.categoryBits = CATEGORY;
+  filter.maskBits = MASK;
+  return filter;
+}
+
+/**
+ * Creates a query filter that finds the shapes an entity type collides with,
+ * for ray casts and overlap queries made on behalf of that entity.
+ * @param key The entity type in PHYSICS.COLLISION.FILTERS
+ */
+export function createQueryFilter(key: CollisionFilterKey) {
+  const { CATEGORY, MASK } = PHYSICS.COLLISION.FILTERS[key];
+  const filter = b2DefaultQueryFilter();
+  filter.categoryBits = CATEGORY;
+  filter.maskBits = MASK;
+  return filter;
+}
+
+/**
+ * Reads the user data of a shape, or null for destroyed or untagged shapes.
+ * @param shapeId The shape to read
+ */
+function getShapeUserData(shapeId: unknown): ShapeUserData | null {
+  if (!shapeId || !b2Shape_IsValid(shapeId)) return null;
+  const userData = b2Shape_GetUserData(shapeId) as ShapeUserData | null;
+  return userData?.type ? userData : null;
+}
+
+/**
+ * Turns a collision around so it reads from shape B to shape A.
+ * @param info The collision to turn around
+ */
+function flipCollision(info: CollisionInfo): CollisionInfo {
+  return {
+    ...info,
+    shapeIdA: info.shapeIdB,
+    shapeIdB: info.shapeIdA,
+    normal: info.normal && { x: -info.normal.x, y: -info.normal.y },
+  };
+}
+
+/**
+ * Keeps the collision handlers of a scene and dispatches Box2D events to them
+ */
+export class CollisionRegistry {
+  private handlers = new Map<string, AnyCollisionHandler[]>();
+  private preSolveHandlers = new Map<string, AnyPreSolveHandler[]>();
+
+  /**
+   * Registers a handler for a pair of shape types.
+   * When both types are the same the handler runs once for each ordering,
+   * so both shapes get to react.
+   * @param kind The Box2D event to handle
+   * @param typeA Type of the first shape passed to the handler
+   * @param typeB Type of the second shape passed to the handler
+   * @param handler Called with the user data of both shapes
+   */
+  on<A extends ShapeType, B extends ShapeType>(
+    kind: CollisionKind,
+    typeA: A,
+    typeB: B,
+    handler: CollisionHandler<A, B>
+  ) {
+    const key = `${kind}:${typeA}:${typeB}`;
+    const handlers = this.handlers.get(key) ?? [];
+    handlers.push(handler as unknown as AnyCollisionHandler);
+    this.handlers.set(key, handlers);
+  }
+
+  /**
+   * Registers a pre-solve handler for a pair of shape types.
+   * Only shapes created with `enablePreSolveEvents` are checked, and the
+   * contact is kept only if every matching handler returns true.
+   * @param typeA Type of the first shape passed to the handler
+   * @param typeB Type of the second shape passed to the handler
+   * @param handler Returns whether the shapes collide
+   */
+  onPreSolve<A extends ShapeType, B extends ShapeType>(
+    typeA: A,
+    typeB: B,
+    handler: PreSolveHandler<A, B>
+  ) {
+    const key = `${typeA}:${typeB}`;
+    const handlers = this.preSolveHandlers.get(key) ?? [];
+    handlers.push(handler as unknown as AnyPreSolveHandler);
+    this.preSolveHandlers.set(key, handlers);
+  }
+
+  /**
+   * Removes every handler, e.g. before the level is rebuilt.
+   */
+  clear() {
+    this.handlers.clear();
+    this.preSolveHandlers.clear();
+  }
+
+  /**
+   * Lets the pre-solve handlers veto contacts of a world while it steps.
+   * @param worldId The world to attach to
+   */
+  attachPreSolve(worldId: b2WorldIdInstance) {
+    b2World_SetPreSolveCallback(
+      worldId,
+      (shapeIdA: unknown, shapeIdB: unknown, manifold: PreSolveManifold) =>
+        this.preSolve(shapeIdA, shapeIdB, manifold),
+      null
+    );
+  }
+
+  /**
+   * Dispatches the sensor and contact events of the latest world step.
+   * @param worldId The world that was stepped
+   */
+  dispatch(worldId: b2WorldIdInstance) {
+    const sensorEvents = b2World_GetSensorEvents(worldId);
+    for (const event of sensorEvents.beginEvents) {
+      this.dispatchPair(
+        "sensorBegin",
+        event.sensorShapeId,
+        event.visitorShapeId
+      );
+    }
+    for (const event of sensorEvents.endEvents) {
+      this.dispatchPair("sensorEnd", event.sensorShapeId, event.visitorShapeId);
+    }
+
+    const contactEvents = b2World_GetContactEvents(worldId);
+    for (const event of contactEvents.beginEvents) {
+      const manifold = event.manifold;
+      this.dispatchPair("contactBegin", event.shapeIdA, event.shapeIdB, {
+        normal: manifold ? { x: manifold.normalX, y: manifold.normalY } : null,
+      });
+    }
+    for (const event of contactEvents.endEvents) {
+      this.dispatchPair("contactEnd", event.shapeIdA, event.shapeIdB);
+    }
+    for (const event of contactEvents.hitEvents) {
+      this.dispatchPair("contactHit", event.shapeIdA, event.shapeIdB, {
+        normal: { x: event.normalX, y: event.normalY },
+        point: { x: event.pointX, y: event.pointY },
+        approachSpeed: event.approachSpeed,
+      });
+    }
+  }
+
+  /**
+   * Asks the pre-solve handlers of two touching shapes whether they collide.
+   * @param shapeIdA First shape as reported by Box2D
+   * @param shapeIdB Second shape as reported by Box2D
+   * @param manifold The contact manifold, with its normal pointing from A to B
+   * @returns Whether the contact is kept
+   */
+  private preSolve(
+    shapeIdA: unknown,
+    shapeIdB: unknown,
+    manifold: PreSolveManifold
+  ): boolean {
+    const userDataA = getShapeUserData(shapeIdA);
+    const userDataB = getShapeUserData(shapeIdB);
+    if (!userDataA || !userDataB) return true;
+
+    let separation = -Infinity;
+    for (let i = 0; i < manifold.pointCount; i++) {
+      separation = Math.max(separation, manifold.points[i].separation);
+    }
+
+    const info: CollisionInfo = {
+      shapeIdA,
+      shapeIdB,
+      normal: { x: manifold.normalX, y: manifold.normalY },
+      point: null,
+      approachSpeed: 0,
+      separation,
+    };
+    const flipped = flipCollision(info);
+
+    const keepAB = (
+      this.preSolveHandlers.get(`${userDataA.type}:${userDataB.type}`) ?? []
+    ).every((handler) => handler(userDataA, userDataB, info));
+    const keepBA = (
+      this.preSolveHandlers.get(`${userDataB.type}:${userDataA.type}`) ?? []
+    ).every((handler) => handler(userDataB, userDataA, flipped));
+    return keepAB && keepBA;
+  }
+
+  /**
+   * Calls the handlers registered for the types of two shapes, in both orders.
+   * @param kind The Box2D event being dispatched
+   * @param shapeIdA First shape as reported by Box2D
+   * @param shapeIdB Second shape as reported by Box2D
+   * @param details Normal, point and speed reported with the event
+   */
+  private dispatchPair(
+    kind: CollisionKind,
+    shapeIdA: unknown,
+    shapeIdB: unknown,
+    details: Partial<CollisionInfo> = {}
+  ) {
+    const userDataA = getShapeUserData(shapeIdA);
+    const userDataB = getShapeUserData(shapeIdB);
+    if (!userDataA || !userDataB) return;
+
+    const info: CollisionInfo = {
+      shapeIdA,
+      shapeIdB,
+      normal: null,
+      point: null,
+      approachSpeed: 0,
+      separation: 0,
+      ...details,
+    };
+
+    this.handlers
+      .get(`${kind}:${userDataA.type}:${userDataB.type}`)
+      ?.forEach((handler) => handler(userDataA, userDataB, info));
+
+    const flipped = flipCollision(info);
+    this.handlers
+      .get(`${kind}:${userDataB.type}:${userDataA.type}`)
+      ?.forEach((handler) => handler(userDataB, userDataA, flipped));
+  }
+}
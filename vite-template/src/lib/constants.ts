@@ -7,6 +7,25 @@
  * @module constants
  */
 
+/**
+ * Box2D collision filter category bits, one per kind of shape
+ * @readonly
+ * @enum {number}
+ */
+const COLLISION_CATEGORIES = {
+  PLAYER: 0x0001,
+  PLATFORM: 0x0002,
+  COIN: 0x0004,
+  CRATE: 0x0008,
+  ENEMY: 0x0010,
+  SENSOR: 0x0020,
+  FINISH: 0x0040,
+  DEBRIS: 0x0080,
+} as const;
+
+const { PLAYER, PLATFORM, COIN, CRATE, ENEMY, SENSOR, FINISH, DEBRIS } =
+  COLLISION_CATEGORIES;
+
 /**
  * Physics configuration for Box2D integration
  * All forces and velocities should use these scales
@@ -17,6 +36,16 @@ export const PHYSICS = {
   /** Physics scale (pixels per meter) for Box2D calculations */
   SCALE: 30,
 
+  /** Fixed-timestep world stepping */
+  STEP: {
+    /** Physics steps per second, independent of the display refresh rate */
+    RATE: 60,
+    /** Box2D sub-steps per physics step */
+    SUB_STEPS: 60,
+    /** Most steps run in one frame; time beyond that is dropped after a stall */
+    MAX_STEPS_PER_FRAME: 5,
+  },
+
   /** World gravity configuration */
   GRAVITY: {
     /** Horizontal gravity (0 for no horizontal gravity) */
@@ -31,8 +60,31 @@ export const PHYSICS = {
     SPEED: 160,
     /** Vertical jump force (positive for upward force) */
     JUMP_FORCE: 30,
+    /** Multiplier applied to JUMP_FORCE for a slightly stronger jump */
+    JUMP_IMPULSE_MULTIPLIER: 1.3,
+    /** Seconds after walking off a ledge in which a jump is still allowed */
+    COYOTE_TIME: 0.1,
+    /** Seconds a jump press is remembered before landing */
+    JUMP_BUFFER_TIME: 0.12,
+    /** Factor applied to the upward velocity when jump is released early */
+    JUMP_CUT_MULTIPLIER: 0.45,
+    /** Vertical speed in meters/second below which the jump counts as at its apex */
+    APEX_SPEED_THRESHOLD: 2,
+    /** Gravity scale near the apex of a jump, for a little extra hang time */
+    APEX_GRAVITY_SCALE: 0.6,
+    /** Gravity scale while falling, so jumps come down faster than they go up */
+    FALL_GRAVITY_SCALE: 1.6,
     /** Mass density for physics calculations */
     DENSITY: 1.0,
+    /** Linear damping applied to the body */
+    LINEAR_DAMPING: 0.5,
+    /** Collision box size relative to the sprite frame */
+    BODY_SCALE: {
+      /** Width factor */
+      x: 0.6,
+      /** Height factor */
+      y: 0.8,
+    },
     /** Surface friction coefficient */
     FRICTION: 0.8,
     /** Bounce coefficient (0 for no bounce) */
@@ -41,12 +93,183 @@ export const PHYSICS = {
     JUMP_THRESHOLD: 0.5,
     /** Horizontal velocity threshold for movement detection */
     MOVE_THRESHOLD: 10,
+    /** Rays cast down from the feet after every physics step to find the ground */
+    GROUND_PROBE: {
+      /** How far below the feet ground is still detected, in pixels */
+      DISTANCE: 4,
+      /** How far inside the body the rays start, in pixels */
+      SKIN: 2,
+      /** Position of the outer rays relative to the half width of the body */
+      FOOT_INSET: 0.9,
+      /** Smallest upward normal component that counts as ground (about 45°) */
+      MIN_NORMAL_Y: 0.7,
+      /** Upward speed in meters/second above which the player is never grounded */
+      MAX_RISE_SPEED: 1,
+    },
+    /** Optional movement abilities, granted per level or by power-ups */
+    ABILITIES: {
+      /** Abilities of levels that do not list their own */
+      DEFAULT: ["doubleJump", "wallSlide", "dash"],
+      /** Extra jumps in mid-air */
+      DOUBLE_JUMP: {
+        /** Jumps available before landing again */
+        EXTRA_JUMPS: 1,
+      },
+      /** Sliding down walls and jumping off them */
+      WALL_SLIDE: {
+        /** How far beside the body walls are still detected, in pixels */
+        PROBE_DISTANCE: 3,
+        /** Smallest sideways normal component that counts as a wall */
+        MIN_NORMAL_X: 0.9,
+        /** Fastest fall speed while sliding, in pixels/second */
+        MAX_SLIDE_SPEED: 90,
+        /** Horizontal speed of a wall jump away from the wall, in pixels/second */
+        JUMP_SPEED_X: 220,
+        /** Seconds after a wall jump before movement input applies again */
+        CONTROL_LOCK_TIME: 0.15,
+      },
+      /** Short horizontal burst of speed */
+      DASH: {
+        /** Dash speed in pixels/second */
+        SPEED: 480,
+        /** Dash length in seconds */
+        DURATION: 0.15,
+        /** Seconds from the start of a dash until the next one */
+        COOLDOWN: 0.6,
+      },
+    },
   },
 
   /** Platform physics properties */
   PLATFORM: {
     /** Surface friction coefficient */
     FRICTION: 1.5,
+    /** Upward shift of the collision box as a fraction of the tile height */
+    COLLISION_OFFSET: 0.25,
+    /** Collision box height as a fraction of the tile height */
+    COLLISION_HEIGHT_SCALE: 1.2,
+    /**
+     * How far the duck's feet may sink below a one-way surface and still land
+     * on it, in pixels. Covers the distance a falling duck moves in one step
+     * before continuous collision takes over.
+     */
+    ONE_WAY_TOLERANCE: 8,
+    /** Platforms following a waypoint path */
+    MOVING: {
+      /** Travel speed in pixels/second, unless the level sets one */
+      SPEED: 80,
+    },
+    /** Platforms that fall after being stood on */
+    FALLING: {
+      /** Seconds of standing on the platform before it falls, unless the level sets one */
+      DELAY: 0.6,
+      /** Sideways shake of the tiles before falling, in pixels */
+      SHAKE: 1.5,
+      /** Fastest fall speed in pixels/second */
+      MAX_SPEED: 900,
+      /** Distance in pixels after which a fallen platform is removed */
+      FALL_DISTANCE: 1500,
+    },
+    /** Platforms that crumble away tile by tile */
+    CRUMBLING: {
+      /** Seconds of standing on the platform before it starts to crumble, unless the level sets one */
+      DELAY: 0.4,
+      /** Seconds between two tiles crumbling */
+      TILE_INTERVAL: 0.2,
+      /** Distance a crumbled tile drops while fading out, in pixels */
+      TILE_DROP: 40,
+      /** Duration of the crumble fade in milliseconds */
+      TILE_FADE_DURATION: 300,
+    },
+  },
+
+  /** Pushable crate physics properties */
+  CRATE: {
+    /** Mass of the small crate in kilograms */
+    SMALL_MASS: 1.5,
+    /** Mass multiplier of the big crate relative to the small crate */
+    BIG_MASS_RATIO: 2,
+    /** Surface friction coefficient */
+    FRICTION: 0.3,
+    /** Bounce coefficient (0 for no bounce) */
+    RESTITUTION: 0.0,
+    /** Linear damping so crates stop sliding soon after being pushed */
+    LINEAR_DAMPING: 2.0,
+  },
+
+  /** Patrolling enemy physics properties */
+  ENEMY: {
+    /** Patrol speed as a fraction of PLAYER.SPEED */
+    SPEED_FACTOR: 0.8,
+    /** Mass density for physics calculations */
+    DENSITY: 1.0,
+    /** Surface friction coefficient (0 so patrol speed stays constant) */
+    FRICTION: 0.0,
+    /** Bounce coefficient (0 for no bounce) */
+    RESTITUTION: 0.0,
+    /** Minimum upward contact normal for a landing to count as a stomp */
+    STOMP_NORMAL_THRESHOLD: 0.5,
+    /** Upward velocity given to the player after a stomp in meters/second */
+    STOMP_BOUNCE_VELOCITY: 15,
+    /** Minimum sideways contact normal for a contact to count as a wall */
+    WALL_NORMAL_THRESHOLD: 0.5,
+  },
+
+  /** Spring pads, spike strips, conveyors and ice lying on platforms */
+  TILES: {
+    /** Spring pads */
+    SPRING: {
+      /** Upward speed a spring launches the duck with in pixels/second, unless the level sets one */
+      LAUNCH_SPEED: 840,
+    },
+    /** Spike strips */
+    SPIKES: {
+      /** How far the deadly area is kept inside the spike art on every side, in pixels */
+      HITBOX_INSET: 3,
+    },
+    /** Conveyor belts */
+    CONVEYOR: {
+      /** Belt speed in pixels/second, positive to the right, unless the level sets one */
+      SPEED: 60,
+    },
+    /** Ice surfaces */
+    ICE: {
+      /** Fraction of the gap to the wanted speed the duck closes per physics step on ice */
+      TRACTION: 0.05,
+    },
+    /** Height above a conveyor or ice surface in which the duck counts as standing on it, in pixels */
+    SURFACE_SENSOR_HEIGHT: 6,
+  },
+
+  /**
+   * Collision filters of every entity type. Two shapes only touch when each
+   * one's mask includes the other's category, so masks are kept symmetric.
+   */
+  COLLISION: {
+    CATEGORIES: COLLISION_CATEGORIES,
+    FILTERS: {
+      PLAYER: {
+        CATEGORY: PLAYER,
+        MASK: PLATFORM | COIN | CRATE | ENEMY | SENSOR | FINISH,
+      },
+      PLATFORM: {
+        CATEGORY: PLATFORM,
+        MASK: PLAYER | CRATE | ENEMY | DEBRIS,
+      },
+      /** Coins only ever report sensor events for the player */
+      COIN: { CATEGORY: COIN, MASK: PLAYER },
+      CRATE: {
+        CATEGORY: CRATE,
+        MASK: PLAYER | PLATFORM | CRATE | ENEMY | DEBRIS,
+      },
+      /** Drop ENEMY from the mask to let enemies walk through each other */
+      ENEMY: { CATEGORY: ENEMY, MASK: PLAYER | PLATFORM | CRATE | ENEMY },
+      /** The death sensor below the world, and springs, spikes, conveyors and ice */
+      SENSOR: { CATEGORY: SENSOR, MASK: PLAYER },
+      FINISH: { CATEGORY: FINISH, MASK: PLAYER },
+      /** Purely visual pieces that only rest on solid ground */
+      DEBRIS: { CATEGORY: DEBRIS, MASK: PLATFORM | CRATE | DEBRIS },
+    },
   },
 
   /** Death sensor properties */
@@ -60,7 +283,7 @@ export const PHYSICS = {
     /** Bounce coefficient (irrelevant) */
     RESTITUTION: 0.0,
 
-    /** Whether the sensor is visible */
+    /** Whether the sensor is visible by default; the debug overlay setting shows it too */
     VISIBLE: false,
   },
 } as const;
@@ -79,6 +302,120 @@ export const WORLD = {
   DEATH_SENSOR_Y: 4400,
 } as const;
 
+/**
+ * Procedural level layout configuration
+ * @readonly
+ * @enum {Object}
+ */
+export const LEVEL = {
+  /** Highest allowed platform y position in pixels */
+  MIN_PLATFORM_Y: 400,
+  /** Lowest allowed platform y position in pixels */
+  MAX_PLATFORM_Y: WORLD.HEIGHT - 400,
+  /** Largest drop between two consecutive platforms in pixels */
+  MAX_DROP: 240,
+  /** Fraction of the duck's jump velocity and run speed the layout may rely on */
+  REACH_SAFETY_FACTOR: 0.85,
+  /** Extra height the duck's feet must clear above a landing surface in pixels */
+  LANDING_CLEARANCE: 10,
+  /** Distance of the death sensor below the lowest platform in pixels */
+  DEATH_SENSOR_OFFSET: 200,
+  /** Height of coins above the platform center in pixels */
+  COIN_HEIGHT: 40,
+  /** Smallest horizontal distance between two checkpoints in pixels */
+  CHECKPOINT_SPACING: 2000,
+} as const;
+
+/**
+ * Rules of a run
+ * @readonly
+ * @enum {Object}
+ */
+export const GAMEPLAY = {
+  /** Lives at the start of a run; the run is over when the last one is lost */
+  LIVES: 3,
+  /** Whether losing a life also loses the coins collected since the last checkpoint */
+  ROLLBACK_COINS: true,
+} as const;
+
+/**
+ * Player settings, kept across page reloads
+ * @readonly
+ * @enum {Object}
+ */
+export const SETTINGS = {
+  /** localStorage key the settings are saved under */
+  STORAGE_KEY: "duckit-settings",
+  /** Volume change per step, volumes go from 0 to 1 */
+  VOLUME_STEP: 0.1,
+  /** Size range of the on-screen touch buttons, as a scale of their art */
+  MOBILE_SCALE: {
+    MIN: 0.3,
+    MAX: 1,
+    STEP: 0.1,
+  },
+  /** Range of the touch buttons' distance from the screen edges, in pixels */
+  MOBILE_MARGIN: {
+    MIN: 0,
+    MAX: 200,
+    STEP: 20,
+  },
+} as const;
+
+/**
+ * Scoring of a run
+ * @readonly
+ * @enum {Object}
+ */
+export const SCORING = {
+  /** Points per collected coin */
+  COIN_POINTS: 10,
+  /** Coins collected in quick succession form a streak worth bonus points */
+  COMBO: {
+    /** Longest play time between two coins of a streak in milliseconds */
+    WINDOW: 400,
+    /** Bonus points per coin for every coin before it in the streak */
+    POINTS: 2,
+    /** Streak length after which the bonus stops growing */
+    MAX_STREAK: 10,
+  },
+  /** Points per meter of progress towards the finish */
+  DISTANCE_POINTS: 1,
+  /** Points for reaching the finish */
+  COMPLETION_POINTS: 500,
+  /** Points per second a completed run stays under the par time */
+  TIME_POINTS: 5,
+  /** Speed of a par run through the level in pixels/second */
+  PAR_SPEED: 100,
+  /** Points taken for every lost life */
+  DEATH_PENALTY: 100,
+  /**
+   * Fractions of the level's target score (every coin, the full distance and
+   * the completion points) needed for each medal
+   */
+  MEDALS: {
+    BRONZE: 0.4,
+    SILVER: 0.6,
+    GOLD: 0.8,
+  },
+} as const;
+
+/**
+ * Records kept across page reloads
+ * @readonly
+ * @enum {Object}
+ */
+export const RECORDS = {
+  /** localStorage key the records are saved under */
+  STORAGE_KEY: "duckit-records",
+  /** localStorage key unreadable records are moved to instead of being lost */
+  BACKUP_KEY: "duckit-records-backup",
+  /** Number of finished runs kept in the history, over all levels */
+  HISTORY_LENGTH: 20,
+  /** Number of recent runs of a level shown on the start and game over screens */
+  RECENT_RUNS_SHOWN: 3,
+} as const;
+
 /**
  * Game render dimensions and boundaries
  * @readonly
@@ -101,6 +438,15 @@ export const ANIMATION = {
   FRAME_RATE: 30,
   /** Camera smoothing factor (0-1, lower = smoother) */
   CAMERA_LERP: 0.1,
+  /** Camera shake when the player dies, unless turned off in the settings */
+  DEATH_SHAKE: {
+    /** Duration in milliseconds */
+    DURATION: 250,
+    /** Shake strength as a fraction of the screen size */
+    INTENSITY: 0.01,
+  },
+  /** Seconds the player stays in the landing state when not running */
+  LAND_DURATION: 0.08,
 } as const;
 
 /**
@@ -115,6 +461,13 @@ export const ASSETS = {
 
   /** Player character assets */
   PLAYER: {
+    /** Source frame size shared by every duck animation frame */
+    SIZE: {
+      /** Width in pixels */
+      WIDTH: 59,
+      /** Height in pixels */
+      HEIGHT: 66,
+    },
     /** Idle animation configuration */
     IDLE: {
       /** Animation key */
@@ -184,6 +537,8 @@ export const ASSETS = {
     },
     /** Single frame identifier (for placement) */
     FRAME: "coin/coin-idle/coin-idle-0001.png",
+    /** Source frame size (width and height) in pixels */
+    SIZE: 31,
   },
 
   /** Level finish flag assets */
@@ -215,6 +570,22 @@ export const ASSETS = {
     },
   },
 
+  /** Pushable crate assets */
+  CRATE: {
+    /** Big crate sprite key */
+    BIG: "crate/crate-big.png",
+    /** Small crate sprite key */
+    SMALL: "crate/crate-small.png",
+  },
+
+  /** Patrolling enemy assets */
+  ENEMY: {
+    /** Static frame identifier */
+    FRAME: "enemy/enemy.png",
+    /** Sprite scale factor relative to the atlas frame */
+    SCALE: 0.6,
+  },
+
   /** Platform segment assets */
   PLATFORM: {
     /** Left edge sprite key */
@@ -223,6 +594,102 @@ export const ASSETS = {
     MIDDLE: "platforms/platform-middle.png",
     /** Right edge sprite key */
     RIGHT: "platforms/platform-right.png",
+    /** Width of a single platform tile in pixels */
+    TILE_WIDTH: 26,
+    /** Height of a single platform tile in pixels */
+    TILE_HEIGHT: 24,
+    /** Tint of one-way (jump-through) platform tiles */
+    ONE_WAY_TINT: 0x9fd8ff,
+  },
+
+  /**
+   * Checkpoint flag art. The atlas has no frames for it, so PreloaderScene
+   * draws its textures.
+   */
+  CHECKPOINT: {
+    /** Texture key of a checkpoint not reached yet */
+    INACTIVE_KEY: "checkpoint-inactive",
+    /** Texture key of a reached checkpoint */
+    ACTIVE_KEY: "checkpoint-active",
+    /** Width in pixels */
+    WIDTH: 22,
+    /** Height in pixels */
+    HEIGHT: 44,
+    /** Pole color */
+    POLE_COLOR: 0x8b5a2b,
+    /** Flag color before the checkpoint is reached */
+    INACTIVE_COLOR: 0x9e9e9e,
+    /** Flag color once the checkpoint is reached */
+    ACTIVE_COLOR: 0x3cc45a,
+  },
+
+  /** On-screen pause button, drawn at runtime */
+  PAUSE_BUTTON: {
+    /** Texture key */
+    KEY: "ui-pause-button",
+    /** Width and height in pixels */
+    SIZE: 40,
+    /** Button color */
+    COLOR: 0x000000,
+    /** Color of the two pause bars */
+    ICON_COLOR: 0xffffff,
+  },
+
+  /**
+   * Spring pad, spike, conveyor and ice art. The atlas has no frames for
+   * these, so PreloaderScene draws their textures.
+   */
+  TILES: {
+    /** Spring pad texture */
+    SPRING: {
+      /** Texture key */
+      KEY: "tile-spring",
+      /** Width in pixels */
+      WIDTH: 26,
+      /** Height in pixels */
+      HEIGHT: 14,
+      /** Pad color */
+      COLOR: 0xe04848,
+      /** Coil and base color */
+      COIL_COLOR: 0x666666,
+      /** Height the pad is squashed to when it launches, relative to its full height */
+      SQUASH_SCALE: 0.5,
+      /** Duration of the squash and release in milliseconds */
+      SQUASH_DURATION: 150,
+    },
+    /** Texture of a single spike, repeated along a strip */
+    SPIKES: {
+      /** Texture key */
+      KEY: "tile-spikes",
+      /** Width of one spike in pixels */
+      WIDTH: 13,
+      /** Height in pixels */
+      HEIGHT: 12,
+      /** Spike color */
+      COLOR: 0xc8c8c8,
+    },
+    /** Texture of one belt segment, repeated along a conveyor */
+    CONVEYOR: {
+      /** Texture key */
+      KEY: "tile-conveyor",
+      /** Width of one segment in pixels */
+      WIDTH: 13,
+      /** Height in pixels */
+      HEIGHT: 8,
+      /** Belt color */
+      COLOR: 0x3c3c3c,
+      /** Color of the stripes showing which way the belt runs */
+      STRIPE_COLOR: 0xf0c020,
+    },
+    /** Ice sheet drawn over the platform top */
+    ICE: {
+      /** Height in pixels */
+      HEIGHT: 8,
+      /** Fill color */
+      COLOR: 0xc8f0ff,
+      /** Fill opacity */
+      ALPHA: 0.85,
+    },
   },
 
   /** UI element assets */
@@ -238,6 +705,34 @@ export const ASSETS = {
   },
 } as const;
 
+/**
+ * Player input configuration
+ * @readonly
+ * @enum {Object}
+ */
+export const INPUT = {
+  /** Default keyboard keys, as Phaser key names; players can rebind them in the settings */
+  KEYS: {
+    LEFT: ["LEFT", "A"],
+    RIGHT: ["RIGHT", "D"],
+    JUMP: ["UP", "W", "SPACE"],
+    DOWN: ["DOWN", "S"],
+    PAUSE: ["ESC", "P"],
+    DASH: ["SHIFT", "X"],
+  },
+  /** Gamepad configuration (standard mapping) */
+  GAMEPAD: {
+    /** Stick deflection below which the stick reads as centered */
+    DEADZONE: 0.25,
+    /** Button index that jumps (A / Cross) */
+    JUMP_BUTTON: 0,
+    /** Button index that pauses (Start / Options) */
+    PAUSE_BUTTON: 9,
+    /** Button index that dashes (X / Square) */
+    DASH_BUTTON: 2,
+  },
+} as const;
+
 /**
  * Scene identifiers
  * @readonly
@@ -250,6 +745,10 @@ export const SCENES = {
   PRELOADER: "PreloaderScene",
   /** Main game scene */
   GAME: "GameScene",
+  /** Level editor scene */
+  EDITOR: "EditorScene",
+  /** Settings scene, shown on top of the game */
+  SETTINGS: "SettingsScene",
 } as const;
 
 /**
@@ -272,13 +771,228 @@ export const UI = {
       y: 20,
     },
   },
+  /** Lives display configuration, below the coin counter */
+  LIVES_COUNTER: {
+    /** Text size and font */
+    FONT_SIZE: "24px",
+    /** Text color */
+    COLOR: "#000000",
+    /** Position offset from corner */
+    OFFSET: {
+      /** X offset in pixels */
+      x: 100,
+      /** Y offset in pixels */
+      y: 50,
+    },
+  },
+  /** Level seed label configuration (start screen and game over overlay) */
+  SEED_TEXT: {
+    /** Text size and font */
+    FONT_SIZE: "20px",
+    /** Text color */
+    COLOR: "#000000",
+    /** Vertical offset below the overlay center in pixels */
+    OFFSET_Y: 100,
+  },
+  /** Level file export/load links on the start screen */
+  LEVEL_FILE_TEXT: {
+    /** Text size and font */
+    FONT_SIZE: "16px",
+    /** Text color */
+    COLOR: "#000000",
+    /** Vertical offset below the overlay center in pixels */
+    OFFSET_Y: 130,
+    /** Horizontal distance between neighbouring links in pixels */
+    OFFSET_X: 110,
+  },
+  /** Run timer display configuration, left of the coin counter */
+  RUN_TIMER: {
+    /** Text size and font */
+    FONT_SIZE: "24px",
+    /** Text color */
+    COLOR: "#000000",
+    /** Position offset from corner */
+    OFFSET: {
+      /** X offset in pixels */
+      x: 250,
+      /** Y offset in pixels */
+      y: 20,
+    },
+  },
+  /** Results breakdown above the game over overlay */
+  RESULTS_TEXT: {
+    /** Text size and font */
+    FONT_SIZE: "18px",
+    /** Text color */
+    COLOR: "#000000",
+    /** Vertical offset of the bottom line above the overlay center in pixels */
+    OFFSET_Y: 90,
+  },
+  /** Records of the level on the start screen and game over overlay */
+  RECORDS_TEXT: {
+    /** Text size and font */
+    FONT_SIZE: "16px",
+    /** Text color */
+    COLOR: "#000000",
+    /** Vertical offset of the top line below the overlay center in pixels */
+    OFFSET_Y: 160,
+  },
+  /** Level complete overlay configuration */
+  LEVEL_COMPLETE: {
+    /** Panel width in pixels */
+    WIDTH: 420,
+    /** Panel height in pixels */
+    HEIGHT: 460,
+    /** Panel background color */
+    BACKGROUND_COLOR: 0x000000,
+    /** Panel background opacity */
+    BACKGROUND_ALPHA: 0.7,
+    /** Title text size and font */
+    TITLE_FONT_SIZE: "36px",
+    /** Button text size and font */
+    FONT_SIZE: "24px",
+    /** Results breakdown text size and font */
+    RESULTS_FONT_SIZE: "18px",
+    /** Text color */
+    COLOR: "#ffffff",
+    /** Button text color on hover */
+    HOVER_COLOR: "#ffd700",
+    /** Delay before showing the overlay, letting the finish animation play */
+    SHOW_DELAY: 1000,
+  },
+  /** Pause menu configuration */
+  PAUSE_MENU: {
+    /** Panel width in pixels */
+    WIDTH: 320,
+    /** Panel height in pixels */
+    HEIGHT: 300,
+    /** Panel background color */
+    BACKGROUND_COLOR: 0x000000,
+    /** Panel background opacity */
+    BACKGROUND_ALPHA: 0.7,
+    /** Title text size and font */
+    TITLE_FONT_SIZE: "36px",
+    /** Button text size and font */
+    FONT_SIZE: "24px",
+    /** Vertical distance between buttons in pixels */
+    BUTTON_SPACING: 50,
+    /** Text color */
+    COLOR: "#ffffff",
+    /** Color of the highlighted button */
+    HOVER_COLOR: "#ffd700",
+    /** Gamepad d-pad button indices (standard mapping) for moving the highlight */
+    GAMEPAD_UP_BUTTON: 12,
+    GAMEPAD_DOWN_BUTTON: 13,
+  },
+  /** On-screen pause button configuration */
+  PAUSE_BUTTON: {
+    /** Position offset from the top-left corner in pixels */
+    OFFSET: {
+      /** X offset in pixels */
+      x: 20,
+      /** Y offset in pixels */
+      y: 20,
+    },
+    /** Button opacity */
+    ALPHA: 0.6,
+  },
+  /** Settings screen configuration */
+  SETTINGS: {
+    /** Background color */
+    BACKGROUND_COLOR: 0x000000,
+    /** Background opacity over the paused game */
+    BACKGROUND_ALPHA: 0.85,
+    /** Title text size and font */
+    TITLE_FONT_SIZE: "36px",
+    /** Row text size and font */
+    FONT_SIZE: "20px",
+    /** Text color */
+    COLOR: "#ffffff",
+    /** Color of the row under the pointer, and of a key waiting to be bound */
+    HOVER_COLOR: "#ffd700",
+    /** Y position of the first row in pixels */
+    TOP: 140,
+    /** Vertical distance between rows in pixels */
+    ROW_HEIGHT: 42,
+    /** Horizontal distance of each column center from the screen center in pixels */
+    COLUMN_OFFSET_X: 280,
+    /** Distance of the value from the column center in pixels */
+    VALUE_OFFSET_X: 150,
+  },
+  /** Debug overlay configuration, below the pause button */
+  DEBUG_OVERLAY: {
+    /** Text size and font */
+    FONT_SIZE: "14px",
+    /** Text color */
+    COLOR: "#ffffff",
+    /** Text background color */
+    BACKGROUND_COLOR: "#000000aa",
+    /** Padding around the text in pixels */
+    PADDING: 6,
+    /** Position offset from the top-left corner */
+    OFFSET: {
+      /** X offset in pixels */
+      x: 20,
+      /** Y offset in pixels */
+      y: 72,
+    },
+  },
   /** Mobile control configuration */
   MOBILE_CONTROLS: {
-    /** Button scale factor */
+    /** Default button scale factor, players can change it in the settings */
     SCALE: 0.5,
-    /** Edge padding in pixels */
+    /** Default distance from the screen edges in pixels, players can change it in the settings */
     PADDING: 20,
     /** Base button size in pixels */
     BUTTON_SIZE: 64,
   },
 } as const;
+
+/**
+ * Level editor configuration
+ * @readonly
+ * @enum {Object}
+ */
+export const EDITOR = {
+  /** Grid that placed and dragged items snap to, half a platform tile in pixels */
+  GRID_SIZE: ASSETS.PLATFORM.TILE_WIDTH / 2,
+  /** Camera pan speed for the arrow and WASD keys in pixels/second */
+  PAN_SPEED: 900,
+  /** Space the camera may scroll past the world bounds in pixels */
+  CAMERA_MARGIN: 300,
+  /** Key that starts a playtest, and ends it again; not bound to any action while playtesting */
+  PLAYTEST_KEY: "P",
+  /** Zoom limits and the zoom change per mouse wheel step */
+  ZOOM: {
+    MIN: 0.25,
+    MAX: 2,
+    STEP: 0.1,
+  },
+  /** Middle tiles of a newly placed platform */
+  NEW_PLATFORM_TILES: 4,
+  /** Fewest middle tiles a platform can be resized to */
+  MIN_PLATFORM_TILES: 1,
+  /** Height of the grab area around the death sensor line in pixels */
+  DEATH_SENSOR_GRAB_HEIGHT: 16,
+  /** Outline color of the selected item */
+  SELECTION_COLOR: 0xffd700,
+  /** Color of the death sensor line */
+  DEATH_SENSOR_COLOR: 0xff0000,
+  /** Outline color of the world bounds */
+  WORLD_BOUNDS_COLOR: 0x000000,
+  /** localStorage key the edited level is saved under */
+  STORAGE_KEY: "duckit-editor-level",
+  /** Milliseconds a level download keeps its file link, browsers may start the download later */
+  DOWNLOAD_CLEANUP_DELAY: 1000,
+  /** Help and status text configuration */
+  TEXT: {
+    /** Text size and font */
+    FONT_SIZE: "14px",
+    /** Text color */
+    COLOR: "#ffffff",
+    /** Text background color */
+    BACKGROUND_COLOR: "#000000aa",
+    /** Padding around the text in pixels */
+    PADDING: 8,
+  },
+} as const;
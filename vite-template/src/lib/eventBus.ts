@@ -0,0 +1,116 @@
+/**
+ * Game Event Bus
+ *
+ * A strongly typed publish/subscribe bus for game-wide events. Modules publish
+ * what happened and anyone interested subscribes, so entities, UI and the game
+ * state do not need to call into each other or poll for changes.
+ *
+ * Subscribers that live in a scene should use subscribe(), which drops the
+ * listener again when the scene shuts down.
+ *
+ * @module eventBus
+ */
+import * as Phaser from "phaser";
+
+import type { GameStateKey } from "@gameState";
+import { b2BodyId } from "@PhaserBox2D";
+
+import type { Settings } from "./settings";
+
+type b2BodyIdInstance = InstanceType<typeof b2BodyId>;
+
+/**
+ * Every event on the bus with the payload it carries
+ */
+export interface GameEvents {
+  /** The game state machine moved to a new state */
+  stateChanged: { from: GameStateKey; to: GameStateKey };
+  /** A coin was collected; `total` is the coin count of the current run */
+  coinCollected: { total: number };
+  /** Coins collected since the last checkpoint were lost; `total` is the coin count left */
+  coinsRolledBack: { total: number };
+  /** The player was killed at a position in pixels */
+  playerDied: { x: number; y: number };
+  /** A life was lost or the lives were refilled; `lives` is what is left */
+  livesChanged: { lives: number };
+  /** The player touched a checkpoint; x and y are its respawn point in pixels */
+  checkpointReached: { x: number; y: number };
+  /** The player touched the finish flag at a position in pixels */
+  finishReached: { x: number; y: number };
+  /** The player reached the finish */
+  levelCompleted: { coins: number; elapsedTime: number };
+  /** A sprite got a physics body */
+  bodyCreated: {
+    bodyId: b2BodyIdInstance;
+    sprite: Phaser.GameObjects.Sprite;
+  };
+  /** The physics body of a sprite was destroyed */
+  bodyDestroyed: { bodyId: b2BodyIdInstance };
+  /** The player changed a setting; `settings` are all settings after the change */
+  settingsChanged: { settings: Settings };
+}
+
+export type GameEventName = keyof GameEvents;
+
+export type GameEventListener<K extends GameEventName> = (
+  payload: GameEvents[K]
+) => void;
+
+/**
+ * EventBus class wrapping an event emitter with typed events
+ * @class
+ */
+class EventBus {
+  private emitter = new Phaser.Events.EventEmitter();
+
+  /**
+   * Publishes an event to all of its listeners
+   * @param {GameEventName} event - The event to publish
+   * @param payload - Data describing the event
+   */
+  emit<K extends GameEventName>(event: K, payload: GameEvents[K]) {
+    this.emitter.emit(event, payload);
+  }
+
+  /**
+   * Adds a listener for an event
+   * @param {GameEventName} event - The event to listen to
+   * @param listener - Called with the payload every time the event is published
+   */
+  on<K extends GameEventName>(event: K, listener: GameEventListener<K>) {
+    this.emitter.on(event, listener);
+  }
+
+  /**
+   * Removes a listener added with on()
+   * @param {GameEventName} event - The event the listener was added to
+   * @param listener - The listener to remove
+   */
+  off<K extends GameEventName>(event: K, listener: GameEventListener<K>) {
+    this.emitter.off(event, listener);
+  }
+
+  /**
+   * Adds a listener for as long as a scene is running.
+   * The listener is removed when the scene shuts down, so restarting a
+   * scene does not leave listeners behind that point at destroyed objects.
+   * @param {Phaser.Scene} scene - The scene the listener belongs to
+   * @param {GameEventName} event - The event to listen to
+   * @param listener - Called with the payload every time the event is published
+   */
+  subscribe<K extends GameEventName>(
+    scene: Phaser.Scene,
+    event: K,
+    listener: GameEventListener<K>
+  ) {
+    this.on(event, listener);
+    scene.events.once(Phaser.Scenes.Events.SHUTDOWN, () =>
+      this.off(event, listener)
+    );
+  }
+}
+
+/**
+ * The game-wide event bus
+ */
+export const eventBus = new EventBus();
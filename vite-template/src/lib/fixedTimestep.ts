@@ -0,0 +1,143 @@
+/**
+ * @file fixedTimestep.ts
+ * @description Fixed-timestep physics stepping with render interpolation.
+ * The Box2D world is always stepped by the same amount of time, so jumps and
+ * movement behave the same at any display refresh rate. Sprites are drawn
+ * between the last two physics states, so motion stays smooth when the frame
+ * rate and the physics rate differ.
+ */
+import * as Phaser from "phaser";
+
+import { PHYSICS } from "@constants";
+import { b2BodyId, b2Body_GetTransform } from "@PhaserBox2D";
+
+/**
+ * A sprite driven by a Box2D body
+ */
+export type PhysicsSprite = Phaser.GameObjects.Sprite & {
+  bodyId: InstanceType<typeof b2BodyId> | null;
+};
+
+/**
+ * Position and rotation of a body, in pixels and radians
+ */
+interface RenderState {
+  x: number;
+  y: number;
+  rotation: number;
+}
+
+/**
+ * Reads the transform of a body in sprite coordinates.
+ * @param bodyId The body to read
+ */
+function getRenderState(bodyId: InstanceType<typeof b2BodyId>): RenderState {
+  const transform = b2Body_GetTransform(bodyId);
+  return {
+    x: transform.p.x * PHYSICS.SCALE,
+    y: -transform.p.y * PHYSICS.SCALE,
+    rotation: -Math.atan2(transform.q.s, transform.q.c),
+  };
+}
+
+/**
+ * Accumulates frame time and runs physics steps of a constant length
+ */
+export class FixedTimestep {
+  /** Length of one physics step in seconds */
+  readonly stepSeconds: number;
+  private readonly stepMs: number;
+  private readonly maxSteps: number;
+  private accumulator = 0;
+
+  /**
+   * @param rate Physics steps per second
+   * @param maxSteps Most steps run in one frame
+   */
+  constructor(
+    rate: number = PHYSICS.STEP.RATE,
+    maxSteps: number = PHYSICS.STEP.MAX_STEPS_PER_FRAME
+  ) {
+    this.stepSeconds = 1 / rate;
+    this.stepMs = 1000 / rate;
+    this.maxSteps = maxSteps;
+  }
+
+  /**
+   * Adds the frame time and runs every physics step that is due.
+   * After a long stall only `maxSteps` steps run and the rest of the backlog
+   * is dropped, so the game slows down briefly instead of freezing.
+   * @param deltaMs Frame time in milliseconds
+   * @param step Runs a single physics step
+   * @returns How far the simulation is into the next step, from 0 to 1
+   */
+  advance(deltaMs: number, step: () => void): number {
+    this.accumulator += deltaMs;
+
+    let steps = 0;
+    while (this.accumulator >= this.stepMs && steps < this.maxSteps) {
+      step();
+      this.accumulator -= this.stepMs;
+      steps++;
+    }
+
+    if (this.accumulator >= this.stepMs) {
+      this.accumulator %= this.stepMs;
+    }
+
+    return this.accumulator / this.stepMs;
+  }
+
+  /**
+   * Drops any accumulated time, e.g. after the level was reset.
+   */
+  reset() {
+    this.accumulator = 0;
+  }
+}
+
+/**
+ * Draws physics sprites between their previous and current body states
+ */
+export class SpriteInterpolator {
+  private previous = new Map<PhysicsSprite, RenderState>();
+
+  /**
+   * Records the body states before a physics step.
+   * @param sprites The sprites to interpolate
+   */
+  capture(sprites: Iterable<PhysicsSprite>) {
+    for (const sprite of sprites) {
+      if (sprite.bodyId) {
+        this.previous.set(sprite, getRenderState(sprite.bodyId));
+      }
+    }
+  }
+
+  /**
+   * Moves the sprites to a blend of their previous and current body states.
+   * @param sprites The sprites to interpolate
+   * @param alpha How far to blend towards the current state, from 0 to 1
+   */
+  apply(sprites: Iterable<PhysicsSprite>, alpha: number) {
+    for (const sprite of sprites) {
+      if (!sprite.bodyId) continue;
+
+      const current = getRenderState(sprite.bodyId);
+      const previous = this.previous.get(sprite) ?? current;
+      const turn = Phaser.Math.Angle.Wrap(current.rotation - previous.rotation);
+
+      sprite.x = Phaser.Math.Linear(previous.x, current.x, alpha);
+      sprite.y = Phaser.Math.Linear(previous.y, current.y, alpha);
+      sprite.rotation = previous.rotation + turn * alpha;
+    }
+  }
+
+  /**
+   * Forgets the previous states, so teleported bodies are not drawn
+   * sliding from their old positions.
+   */
+  reset() {
+    this.previous.clear();
+  }
+}
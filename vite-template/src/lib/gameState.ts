@@ -6,10 +6,20 @@
  *
  * State Flow:
  * INITIALIZING -> READY -> PLAYING -> (PAUSED) -> GAME_OVER -> READY
+ *                                              -> LEVEL_COMPLETE -> READY
+ *                                    PAUSED -> READY (run abandoned from the pause menu)
+ *
+ * Every transition is published on the event bus as `stateChanged`.
+ * A run has a number of lives; losing one respawns the player, and the run
+ * is over once the last one is lost.
  *
  * @module gameState
  */
+import { GAMEPLAY } from "@constants";
 import { b2WorldId as B2WorldIdClass } from "@PhaserBox2D"; // Import the class
+
+import { eventBus } from "./eventBus";
+
 type b2WorldIdInstance = InstanceType<typeof B2WorldIdClass>; // Get instance type
 
 /**
@@ -28,21 +38,29 @@ export const GameStates = {
   PAUSED: "PAUSED",
   /** Game has ended */
   GAME_OVER: "GAME_OVER",
-};
+  /** Player reached the finish */
+  LEVEL_COMPLETE: "LEVEL_COMPLETE",
+} as const;
+
+export type GameStateKey = (typeof GameStates)[keyof typeof GameStates];
 
 /**
  * Defines valid state transitions for the FSM
  * Each state maps to an array of valid next states
  * @private
  * @readonly
- * @type {Object.<string, string[]>}
  */
-const StateTransitions = {
+const StateTransitions: Record<GameStateKey, GameStateKey[]> = {
   [GameStates.INITIALIZING]: [GameStates.READY],
   [GameStates.READY]: [GameStates.PLAYING],
-  [GameStates.PLAYING]: [GameStates.PAUSED, GameStates.GAME_OVER],
-  [GameStates.PAUSED]: [GameStates.PLAYING],
+  [GameStates.PLAYING]: [
+    GameStates.PAUSED,
+    GameStates.GAME_OVER,
+    GameStates.LEVEL_COMPLETE,
+  ],
+  [GameStates.PAUSED]: [GameStates.PLAYING, GameStates.READY],
   [GameStates.GAME_OVER]: [GameStates.READY],
+  [GameStates.LEVEL_COMPLETE]: [GameStates.READY],
 };
 
 /**
@@ -57,6 +75,13 @@ class GameState {
   private currentState!: (typeof GameStates)[keyof typeof GameStates];
   public worldId: b2WorldIdInstance | null = null; // Use derived instance type
   private coins: number = 0; // Initialize coins to 0
+  private checkpointCoins: number = 0; // Coins banked at the last checkpoint
+  private lives: number = GAMEPLAY.LIVES;
+  private maxLives: number = GAMEPLAY.LIVES; // Lives every run starts with
+  /** Whether losing a life also loses the coins collected since the last checkpoint */
+  public rollbackCoins: boolean = GAMEPLAY.ROLLBACK_COINS;
+  private elapsedTime: number = 0; // Milliseconds spent in PLAYING state
+  private playStartedAt: number = 0; // Timestamp of the last PLAYING entry
 
   /**
    * Creates or returns the singleton instance of GameState
@@ -89,6 +114,10 @@ class GameState {
     this.currentState = GameStates.INITIALIZING;
     this.worldId = null;
     this.coins = 0;
+    this.checkpointCoins = 0;
+    this.lives = this.maxLives;
+    this.elapsedTime = 0;
+    this.playStartedAt = 0;
   }
 
   /**
@@ -107,10 +136,12 @@ class GameState {
       return false;
     }
 
-    this._executeExitActions(this.currentState);
+    const previousState = this.currentState;
+    this._executeExitActions(previousState);
     this.currentState = newState;
     console.log(`Transition successful. New state: ${this.currentState}`);
     this._executeEntryActions(newState);
+    eventBus.emit("stateChanged", { from: previousState, to: newState });
 
     return true;
   }
@@ -125,13 +156,25 @@ class GameState {
       case GameStates.READY:
         // Reset game-specific state but keep worldId
         this.coins = 0;
+        this.checkpointCoins = 0;
+        this.lives = this.maxLives;
+        this.elapsedTime = 0;
+        eventBus.emit("livesChanged", { lives: this.lives });
         break;
       case GameStates.PLAYING:
-        // Any setup needed when game starts
+        // Start (or resume) the run timer
+        this.playStartedAt = performance.now();
         break;
       case GameStates.GAME_OVER:
         // Any cleanup needed when game ends
         break;
+      case GameStates.LEVEL_COMPLETE:
+        // The run time was banked when leaving PLAYING
+        eventBus.emit("levelCompleted", {
+          coins: this.coins,
+          elapsedTime: this.elapsedTime,
+        });
+        break;
     }
   }
 
@@ -143,7 +186,8 @@ class GameState {
   _executeExitActions(state: (typeof GameStates)[keyof typeof GameStates]) {
     switch (state) {
       case GameStates.PLAYING:
-        // Any cleanup needed when leaving playing state
+        // Bank the time spent playing so pauses are not counted
+        this.elapsedTime += performance.now() - this.playStartedAt;
         break;
     }
   }
@@ -188,6 +232,14 @@ class GameState {
     return this.currentState === GameStates.GAME_OVER;
   }
 
+  /**
+   * Checks if game is in LEVEL_COMPLETE state
+   * @returns {boolean}
+   */
+  get isLevelComplete() {
+    return this.currentState === GameStates.LEVEL_COMPLETE;
+  }
+
   /**
    * Sets the Box2D world ID and transitions from INITIALIZING to READY if applicable
    * @param {any} id - The Box2D world ID
@@ -233,12 +285,22 @@ class GameState {
   }
 
   /**
-   * Restarts the game by transitioning from GAME_OVER to READY state
+   * Completes the level by transitioning to LEVEL_COMPLETE state
+   * @returns {boolean} Whether the transition was successful
+   */
+  completeLevel() {
+    console.log("Level complete");
+    return this.transition(GameStates.LEVEL_COMPLETE);
+  }
+
+  /**
+   * Restarts the game by transitioning from GAME_OVER, LEVEL_COMPLETE or
+   * PAUSED (abandoning the run) to READY state
    * @returns {boolean} Whether the transition was successful
    */
   restartGame() {
     console.log("restarting game");
-    if (this.isGameOver) {
+    if (this.isGameOver || this.isLevelComplete || this.isPaused) {
       return this.transition(GameStates.READY);
     }
     return false;
@@ -252,6 +314,7 @@ class GameState {
     // Renamed from addCoin for clarity
     if (this.isPlaying) {
       this.coins++;
+      eventBus.emit("coinCollected", { total: this.coins });
       return true;
     }
     return false;
@@ -264,6 +327,75 @@ class GameState {
   getCoins() {
     return this.coins;
   }
+
+  /**
+   * Banks the coins collected so far, so losing a life no longer takes them
+   * back. Called when the player reaches a checkpoint.
+   */
+  reachCheckpoint() {
+    this.checkpointCoins = this.coins;
+  }
+
+  /**
+   * Takes a life (only in PLAYING state). Unless rollbackCoins is off, the
+   * coins collected since the last checkpoint are lost as well, so the
+   * player has to collect them again after respawning.
+   * @returns {number} The lives left; the run is over at 0
+   */
+  loseLife(): number {
+    if (!this.isPlaying) return this.lives;
+
+    this.lives = Math.max(0, this.lives - 1);
+    eventBus.emit("livesChanged", { lives: this.lives });
+
+    // A finished run keeps its coins for the game over screen
+    const respawns = this.lives > 0;
+    if (respawns && this.rollbackCoins && this.coins !== this.checkpointCoins) {
+      this.coins = this.checkpointCoins;
+      eventBus.emit("coinsRolledBack", { total: this.coins });
+    }
+    return this.lives;
+  }
+
+  /**
+   * Gets the lives left in the current run
+   * @returns {number}
+   */
+  getLives() {
+    return this.lives;
+  }
+
+  /**
+   * Gets the lives every run starts with
+   * @returns {number}
+   */
+  getMaxLives() {
+    return this.maxLives;
+  }
+
+  /**
+   * Sets the lives every run starts with. Takes effect with the next run,
+   * or right away while the game is READY.
+   * @param {number} lives - Lives per run, at least 1
+   */
+  setMaxLives(lives: number) {
+    this.maxLives = Math.max(1, Math.floor(lives));
+    if (this.isReady || this.isInitializing) {
+      this.lives = this.maxLives;
+      eventBus.emit("livesChanged", { lives: this.lives });
+    }
+  }
+
+  /**
+   * Gets the time spent in PLAYING state since the run started
+   * @returns {number} Elapsed play time in milliseconds
+   */
+  getElapsedTime() {
+    if (this.isPlaying) {
+      return this.elapsedTime + (performance.now() - this.playStartedAt);
+    }
+    return this.elapsedTime;
+  }
 }
 
 /**
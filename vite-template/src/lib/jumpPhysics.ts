@@ -0,0 +1,157 @@
+/**
+ * @file jumpPhysics.ts
+ * @description Analytic model of the duck's jump, derived from the real player
+ * physics constants. Used by the level generator to keep every gap and step
+ * reachable. Has no Phaser or Box2D dependency so it can run headless.
+ */
+import { ASSETS, LEVEL, PHYSICS } from "@constants";
+
+/**
+ * Jump and run parameters of the duck, in pixels and seconds
+ */
+export interface JumpProfile {
+  /** Collision box width in pixels */
+  bodyWidth: number;
+  /** Collision box height in pixels */
+  bodyHeight: number;
+  /** Horizontal run speed in pixels/second */
+  runSpeed: number;
+  /** Upward velocity right after the jump impulse in pixels/second */
+  jumpVelocity: number;
+  /** Downward gravity while rising in pixels/second² */
+  gravity: number;
+  /** Downward gravity after the apex in pixels/second² */
+  fallGravity: number;
+  /** Linear damping coefficient per second */
+  damping: number;
+}
+
+/**
+ * Builds the jump profile of the duck from the player physics constants.
+ * @param safetyFactor Fraction of the jump velocity and run speed to rely on
+ * @returns The jump profile
+ */
+export function getJumpProfile(
+  safetyFactor: number = LEVEL.REACH_SAFETY_FACTOR
+): JumpProfile {
+  const bodyWidth = ASSETS.PLAYER.SIZE.WIDTH * PHYSICS.PLAYER.BODY_SCALE.x;
+  const bodyHeight = ASSETS.PLAYER.SIZE.HEIGHT * PHYSICS.PLAYER.BODY_SCALE.y;
+
+  // Box2D mass of the player box (density * area in m²)
+  const mass =
+    PHYSICS.PLAYER.DENSITY *
+    (bodyWidth / PHYSICS.SCALE) *
+    (bodyHeight / PHYSICS.SCALE);
+  const impulse =
+    PHYSICS.PLAYER.JUMP_FORCE * PHYSICS.PLAYER.JUMP_IMPULSE_MULTIPLIER;
+
+  return {
+    bodyWidth,
+    bodyHeight,
+    runSpeed: PHYSICS.PLAYER.SPEED * safetyFactor,
+    jumpVelocity: (impulse / mass) * PHYSICS.SCALE * safetyFactor,
+    gravity: Math.abs(PHYSICS.GRAVITY.y) * PHYSICS.SCALE,
+    fallGravity:
+      Math.abs(PHYSICS.GRAVITY.y) *
+      PHYSICS.SCALE *
+      PHYSICS.PLAYER.FALL_GRAVITY_SCALE,
+    damping: PHYSICS.PLAYER.LINEAR_DAMPING,
+  };
+}
+
+/**
+ * Distance travelled upwards under constant gravity and damping.
+ * Solves v' = -g - c·v, which is how Box2D integrates gravity with damping.
+ * @param v0 Starting upward velocity in pixels/second
+ * @param g Downward gravity in pixels/second²
+ * @param c Linear damping coefficient per second
+ * @param t Seconds travelled
+ */
+function dampedRise(v0: number, g: number, c: number, t: number): number {
+  if (c === 0) {
+    return v0 * t - (g * t * t) / 2;
+  }
+  const terminal = g / c;
+  return ((v0 + terminal) * (1 - Math.exp(-c * t))) / c - terminal * t;
+}
+
+/**
+ * Height of the duck's feet above the takeoff surface at a time after jumping.
+ * The duck rises under normal gravity and falls under the heavier fall
+ * gravity. The lighter gravity near the apex is left out, which only makes
+ * the model underestimate the jump.
+ * @param profile The jump profile
+ * @param t Seconds since takeoff
+ * @returns Rise in pixels (negative once below the takeoff surface)
+ */
+export function jumpRise(profile: JumpProfile, t: number): number {
+  const { jumpVelocity: v0, gravity: g, fallGravity, damping: c } = profile;
+  const apexTime = timeToApex(profile);
+  if (t <= apexTime) {
+    return dampedRise(v0, g, c, t);
+  }
+  return (
+    dampedRise(v0, g, c, apexTime) + dampedRise(0, fallGravity, c, t - apexTime)
+  );
+}
+
+/**
+ * Seconds from takeoff until the top of the jump.
+ * @param profile The jump profile
+ */
+export function timeToApex(profile: JumpProfile): number {
+  const { jumpVelocity: v0, gravity: g, damping: c } = profile;
+  if (c === 0) {
+    return v0 / g;
+  }
+  return Math.log(1 + (v0 * c) / g) / c;
+}
+
+/**
+ * Highest rise of the duck's feet above the takeoff surface.
+ * @param profile The jump profile
+ * @returns Jump height in pixels
+ */
+export function maxJumpHeight(profile: JumpProfile): number {
+  return jumpRise(profile, timeToApex(profile));
+}
+
+/**
+ * Checks whether the duck can jump from the edge of one platform onto the next.
+ *
+ * The duck takes off with a quarter of its body past the edge and runs at
+ * full speed. Its front foot must clear the target's lip when it gets there,
+ * and its feet must still be above the target surface once its body is
+ * half over the target. Since the jump arc is concave, clearing both points
+ * means it clears everything in between.
+ *
+ * @param profile The jump profile
+ * @param gap Horizontal distance between the platform edges in pixels
+ * @param rise Height of the target surface above the takeoff surface in pixels (negative for drops)
+ * @param clearance Extra height the feet must clear in pixels
+ * @returns Whether the target can be reached
+ */
+export function canReach(
+  profile: JumpProfile,
+  gap: number,
+  rise: number,
+  clearance: number = LEVEL.LANDING_CLEARANCE
+): boolean {
+  const w = profile.bodyWidth;
+  const required = rise + clearance;
+
+  // Center travel until the front foot reaches the target lip
+  const frontTravel = gap - (3 * w) / 4;
+  // Center travel until the body is half over the target
+  const landTravel = gap - w / 2;
+
+  if (frontTravel <= 0) {
+    // Already beside the lip: jump straight up, then move across
+    return maxJumpHeight(profile) >= required;
+  }
+
+  return (
+    jumpRise(profile, frontTravel / profile.runSpeed) >= required &&
+    jumpRise(profile, landTravel / profile.runSpeed) >= required
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * @file levelFile.ts
+ * @description Saves levels as downloadable JSON files and opens level files
+ * picked by the player, using the browser's download and file picker.
+ * Also keeps the level being edited in localStorage.
+ */
+import { EDITOR } from "@constants";
+
+import { LevelLayout, parseLevel, serializeLevel } from "./levelFormat";
+
+/**
+ * Builds a file name for a level, from its name or seed.
+ * @param layout The level to name
+ * @returns File name ending in .json
+ */
+function getLevelFileName(layout: LevelLayout): string {
+  if (layout.name) {
+    return `${layout.name.replace(/[^\w-]+/g, "_")}.json`;
+  }
+  return layout.seed !== undefined
+    ? `duckit-level-${layout.seed}.json`
+    : "duckit-level.json";
+}
+
+/**
+ * Downloads a level as a JSON file.
+ * @param layout The level to download
+ */
+export function downloadLevel(layout: LevelLayout) {
+  const blob = new Blob([serializeLevel(layout)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getLevelFileName(layout);
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+
+  // Some browsers start the download after click() returns and still need the URL
+  window.setTimeout(() => {
+    link.remove();
+    URL.revokeObjectURL(url);
+  }, EDITOR.DOWNLOAD_CLEANUP_DELAY);
+}
+
+/**
+ * Lets the player pick a level JSON file and reads it.
+ * Files that are not valid levels are reported and ignored.
+ * @param onLoad Called with the level once the file has been read
+ */
+export function openLevelFile(onLoad: (layout: LevelLayout) => void) {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".json,application/json";
+
+  input.addEventListener("change", () => {
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.addEventListener("load", () => {
+      try {
+        onLoad(parseLevel(String(reader.result)));
+      } catch (error) {
+        console.error(`Failed to load level file ${file.name}:`, error);
+        window.alert(`${file.name} is not a valid level file.`);
+      }
+    });
+    reader.readAsText(file);
+  });
+
+  input.click();
+}
+
+/**
+ * Saves a level to the browser's localStorage.
+ * @param layout The level to save
+ * @returns Whether the level was saved
+ */
+export function saveLevelToStorage(layout: LevelLayout): boolean {
+  try {
+    localStorage.setItem(EDITOR.STORAGE_KEY, serializeLevel(layout));
+    return true;
+  } catch (error) {
+    console.error("Failed to save level to localStorage:", error);
+    return false;
+  }
+}
+
+/**
+ * Loads the level saved in the browser's localStorage.
+ * @returns The saved level, or null if none was saved or it is not valid
+ */
+export function loadLevelFromStorage(): LevelLayout | null {
+  try {
+    const json = localStorage.getItem(EDITOR.STORAGE_KEY);
+    return json === null ? null : parseLevel(json);
+  } catch (error) {
+    console.error("Failed to load level from localStorage:", error);
+    return null;
+  }
+}
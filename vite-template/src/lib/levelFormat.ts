@@ -0,0 +1,560 @@
+/**
+ * @file levelFormat.ts
+ * @description The JSON level format shared by generated and hand-authored levels.
+ * Defines the typed level schema and converts levels to and from JSON text,
+ * validating everything that is read so a broken file fails with a clear
+ * message instead of a half-built level.
+ * Has no Phaser or Box2D dependency, so levels can be checked headless.
+ */
+import { ASSETS, LEVEL, WORLD } from "@constants";
+
+/** Version written to every exported level */
+export const LEVEL_FORMAT_VERSION = 1;
+
+/** Every player ability a level can grant, in the order they get to use a jump */
+export const ABILITY_KEYS = ["wallSlide", "doubleJump", "dash"] as const;
+
+export type AbilityKey = (typeof ABILITY_KEYS)[number];
+
+/**
+ * A platform travelling through waypoints and back, or around in a loop
+ */
+export interface MovingPlatformBehavior {
+  type: "moving";
+  /** Waypoints as offsets from the platform position in pixels; the platform starts at its own position */
+  path: PointLayout[];
+  /** Whether the platform returns from the last waypoint straight to its start instead of retracing the path */
+  loop?: boolean;
+  /** Travel speed in pixels/second, PHYSICS.PLATFORM.MOVING.SPEED when absent */
+  speed?: number;
+}
+
+/**
+ * A platform that falls once the duck has stood on it for a while
+ */
+export interface FallingPlatformBehavior {
+  type: "falling";
+  /** Seconds of standing on it before it falls, PHYSICS.PLATFORM.FALLING.DELAY when absent */
+  delay?: number;
+}
+
+/**
+ * A platform that crumbles away tile by tile once the duck has stood on it
+ */
+export interface CrumblingPlatformBehavior {
+  type: "crumbling";
+  /** Seconds of standing on it before it crumbles, PHYSICS.PLATFORM.CRUMBLING.DELAY when absent */
+  delay?: number;
+}
+
+/** How a platform moves, falls or crumbles */
+export type PlatformBehavior =
+  MovingPlatformBehavior | FallingPlatformBehavior | CrumblingPlatformBehavior;
+
+/**
+ * A composite platform, positioned by its center.
+ * Crates, enemies, tiles, checkpoints and the finish should stand on platforms without a behavior.
+ */
+export interface PlatformLayout {
+  /** Center x position in pixels */
+  x: number;
+  /** Center y position in pixels */
+  y: number;
+  /** Total width in pixels */
+  width: number;
+  /** Number of middle tiles between the left and right edge tiles */
+  middleTiles: number;
+  /** Whether the duck can jump up through the platform and drop down through it */
+  oneWay?: boolean;
+  /** How the platform moves, falls or crumbles; absent for a static platform */
+  behavior?: PlatformBehavior;
+}
+
+/**
+ * A point in the level, in pixels
+ */
+export interface PointLayout {
+  x: number;
+  y: number;
+}
+
+/**
+ * An entity standing on a platform
+ */
+export interface PlatformEntityLayout {
+  /** Index of the platform in LevelLayout.platforms */
+  platform: number;
+  /** Center x position in pixels */
+  x: number;
+}
+
+/**
+ * A crate standing on a platform
+ */
+export interface CrateLayout extends PlatformEntityLayout {
+  size: "big" | "small";
+}
+
+/**
+ * A spring pad that launches the duck upwards
+ */
+export interface SpringLayout extends PlatformEntityLayout {
+  type: "spring";
+  /** Launch speed in pixels/second, PHYSICS.TILES.SPRING.LAUNCH_SPEED when absent */
+  launchSpeed?: number;
+}
+
+/**
+ * A strip of spikes that kills the duck on contact
+ */
+export interface SpikesLayout extends PlatformEntityLayout {
+  type: "spikes";
+  /** Width of the strip in pixels */
+  width: number;
+}
+
+/**
+ * A conveyor belt that carries the duck along
+ */
+export interface ConveyorLayout extends PlatformEntityLayout {
+  type: "conveyor";
+  /** Width of the belt in pixels */
+  width: number;
+  /** Belt speed in pixels/second, positive to the right; PHYSICS.TILES.CONVEYOR.SPEED when absent */
+  speed?: number;
+}
+
+/**
+ * A slippery sheet of ice
+ */
+export interface IceLayout extends PlatformEntityLayout {
+  type: "ice";
+  /** Width of the sheet in pixels */
+  width: number;
+}
+
+/** A spring, spike strip, conveyor or ice sheet lying on a platform */
+export type TileLayout =
+  SpringLayout | SpikesLayout | ConveyorLayout | IceLayout;
+
+/**
+ * Size of the playable world, in pixels
+ */
+export interface WorldBounds {
+  width: number;
+  height: number;
+}
+
+/**
+ * Full description of a level, as stored in level JSON files
+ */
+export interface LevelLayout {
+  /** Format version the level was written with */
+  version: number;
+  /** Seed a generated level was planned from; absent for hand-authored levels */
+  seed?: number;
+  /** Display name of a hand-authored level */
+  name?: string;
+  world: WorldBounds;
+  /** Player spawn position */
+  spawn: PointLayout;
+  /** Y position of the death sensor in pixels */
+  deathSensorY: number;
+  platforms: PlatformLayout[];
+  coins: PointLayout[];
+  crates: CrateLayout[];
+  enemies: PlatformEntityLayout[];
+  /** Springs, spikes, conveyors and ice */
+  tiles: TileLayout[];
+  /** Checkpoints the player respawns at after losing a life */
+  checkpoints: PlatformEntityLayout[];
+  /** Finish flag */
+  finish: PlatformEntityLayout;
+  /** Abilities the player has in this level; absent for the default set */
+  abilities?: AbilityKey[];
+}
+
+/**
+ * Places the finish near the right end of the rightmost platform.
+ * @param platforms The platforms of the level
+ * @returns The finish placement
+ */
+export function getDefaultFinish(
+  platforms: PlatformLayout[]
+): PlatformEntityLayout {
+  let last = 0;
+  platforms.forEach((platform, index) => {
+    const right = platform.x + platform.width / 2;
+    if (right > platforms[last].x + platforms[last].width / 2) {
+      last = index;
+    }
+  });
+
+  const platform = platforms[last];
+  return {
+    platform: last,
+    x: platform.x + platform.width / 2 - ASSETS.PLATFORM.TILE_WIDTH,
+  };
+}
+
+/**
+ * Creates a level with a single platform and the spawn point above it,
+ * as a starting point for hand-authored levels.
+ * @returns The new level
+ */
+export function createEmptyLevel(): LevelLayout {
+  const middleTiles = 8;
+  const width = (middleTiles + 2) * ASSETS.PLATFORM.TILE_WIDTH;
+  const y = Math.round((LEVEL.MIN_PLATFORM_Y + LEVEL.MAX_PLATFORM_Y) / 2);
+  const platforms = [{ x: 100 + width / 2, y, width, middleTiles }];
+
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    world: { width: WORLD.WIDTH, height: WORLD.HEIGHT },
+    spawn: { x: platforms[0].x, y: y - 100 },
+    deathSensorY: y + LEVEL.DEATH_SENSOR_OFFSET,
+    platforms,
+    coins: [],
+    crates: [],
+    enemies: [],
+    tiles: [],
+    checkpoints: [],
+    finish: getDefaultFinish(platforms),
+  };
+}
+
+/**
+ * Converts a level to JSON text.
+ * @param layout The level to convert
+ * @returns Pretty-printed JSON
+ */
+export function serializeLevel(layout: LevelLayout): string {
+  return JSON.stringify(layout, null, 2);
+}
+
+/**
+ * Reads a number field, failing when it is missing or not finite.
+ * @param source The object to read from
+ * @param key The field name
+ * @param path Location of the object in the level, for error messages
+ */
+function readNumber(
+  source: Record<string, unknown>,
+  key: string,
+  path: string
+): number {
+  const value = source[key];
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new Error(`Invalid level: ${path}.${key} must be a number`);
+  }
+  return value;
+}
+
+/**
+ * Checks that a value is a plain object.
+ * @param value The value to check
+ * @param path Location of the value in the level, for error messages
+ */
+function readObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid level: ${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Reads an optional array field; a missing field reads as an empty array.
+ * @param source The object to read from
+ * @param key The field name
+ */
+function readArray(source: Record<string, unknown>, key: string): unknown[] {
+  const value = source[key] ?? [];
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid level: ${key} must be an array`);
+  }
+  return value;
+}
+
+/**
+ * Reads a point with x and y fields.
+ * @param value The value to read
+ * @param path Location of the point in the level, for error messages
+ */
+function readPoint(value: unknown, path: string): PointLayout {
+  const point = readObject(value, path);
+  return { x: readNumber(point, "x", path), y: readNumber(point, "y", path) };
+}
+
+/**
+ * Reads an optional number field that must not be negative.
+ * @param source The object to read from
+ * @param key The field name
+ * @param path Location of the object in the level, for error messages
+ * @returns The number, or undefined when the field is missing
+ */
+function readOptionalNonNegative(
+  source: Record<string, unknown>,
+  key: string,
+  path: string
+): number | undefined {
+  if (source[key] === undefined) return undefined;
+  const value = readNumber(source, key, path);
+  if (value < 0) {
+    throw new Error(`Invalid level: ${path}.${key} must not be negative`);
+  }
+  return value;
+}
+
+/**
+ * Reads a number field that must be above zero.
+ * @param source The object to read from
+ * @param key The field name
+ * @param path Location of the object in the level, for error messages
+ */
+function readPositive(
+  source: Record<string, unknown>,
+  key: string,
+  path: string
+): number {
+  const value = readNumber(source, key, path);
+  if (value <= 0) {
+    throw new Error(`Invalid level: ${path}.${key} must be positive`);
+  }
+  return value;
+}
+
+/**
+ * Reads the behavior of a moving, falling or crumbling platform.
+ * @param value The value to read
+ * @param path Location of the behavior in the level, for error messages
+ */
+function readPlatformBehavior(value: unknown, path: string): PlatformBehavior {
+  const behavior = readObject(value, path);
+
+  switch (behavior.type) {
+    case "moving": {
+      if (!Array.isArray(behavior.path) || behavior.path.length === 0) {
+        throw new Error(`Invalid level: ${path}.path needs a waypoint`);
+      }
+      const waypoints = behavior.path.map((point, index) =>
+        readPoint(point, `${path}.path[${index}]`)
+      );
+      const loop = behavior.loop ?? false;
+      if (typeof loop !== "boolean") {
+        throw new Error(`Invalid level: ${path}.loop must be true or false`);
+      }
+      const speed = readOptionalNonNegative(behavior, "speed", path);
+      if (speed === 0) {
+        throw new Error(`Invalid level: ${path}.speed must be positive`);
+      }
+      return {
+        type: "moving",
+        path: waypoints,
+        ...(loop ? { loop } : {}),
+        ...(speed !== undefined ? { speed } : {}),
+      };
+    }
+    case "falling":
+    case "crumbling": {
+      const delay = readOptionalNonNegative(behavior, "delay", path);
+      return {
+        type: behavior.type,
+        ...(delay !== undefined ? { delay } : {}),
+      };
+    }
+    default:
+      throw new Error(
+        `Invalid level: ${path}.type must be "moving", "falling" or "crumbling"`
+      );
+  }
+}
+
+/**
+ * Reads an entity standing on a platform, checking the platform index.
+ * @param value The value to read
+ * @param path Location of the entity in the level, for error messages
+ * @param platformCount Number of platforms in the level
+ */
+function readPlatformEntity(
+  value: unknown,
+  path: string,
+  platformCount: number
+): PlatformEntityLayout {
+  const entity = readObject(value, path);
+  const platform = readNumber(entity, "platform", path);
+  if (
+    !Number.isInteger(platform) ||
+    platform < 0 ||
+    platform >= platformCount
+  ) {
+    throw new Error(`Invalid level: ${path}.platform is not a platform index`);
+  }
+  return { platform, x: readNumber(entity, "x", path) };
+}
+
+/**
+ * Reads a spring, spike strip, conveyor or ice sheet, checking the platform index.
+ * @param value The value to read
+ * @param path Location of the tile in the level, for error messages
+ * @param platformCount Number of platforms in the level
+ */
+function readTile(
+  value: unknown,
+  path: string,
+  platformCount: number
+): TileLayout {
+  const tile = readObject(value, path);
+  const entity = readPlatformEntity(value, path, platformCount);
+
+  switch (tile.type) {
+    case "spring": {
+      const launchSpeed = readOptionalNonNegative(tile, "launchSpeed", path);
+      return {
+        type: "spring",
+        ...entity,
+        ...(launchSpeed !== undefined ? { launchSpeed } : {}),
+      };
+    }
+    case "spikes":
+    case "conveyor":
+    case "ice": {
+      const width = readNumber(tile, "width", path);
+      if (width <= 0) {
+        throw new Error(`Invalid level: ${path}.width must be positive`);
+      }
+      if (tile.type !== "conveyor") {
+        return { type: tile.type, ...entity, width };
+      }
+      return {
+        type: "conveyor",
+        ...entity,
+        width,
+        ...(tile.speed !== undefined
+          ? { speed: readNumber(tile, "speed", path) }
+          : {}),
+      };
+    }
+    default:
+      throw new Error(
+        `Invalid level: ${path}.type must be "spring", "spikes", "conveyor" or "ice"`
+      );
+  }
+}
+
+/**
+ * Checks whether a value names a player ability.
+ * @param value The value to check
+ */
+function isAbilityKey(value: unknown): value is AbilityKey {
+  return ABILITY_KEYS.includes(value as AbilityKey);
+}
+
+/**
+ * Parses and validates level JSON text.
+ * Crates, enemies, tiles and checkpoints may be left out, a level without a finish gets one
+ * on its rightmost platform, and a level without abilities gets the default set.
+ * @param json The level JSON text
+ * @returns The validated level
+ * @throws Error when the text is not a valid level
+ */
+export function parseLevel(json: string): LevelLayout {
+  const data = readObject(JSON.parse(json), "level");
+
+  const version = data.version ?? LEVEL_FORMAT_VERSION;
+  if (version !== LEVEL_FORMAT_VERSION) {
+    throw new Error(`Unsupported level format version ${String(version)}`);
+  }
+
+  const world = readObject(data.world, "world");
+
+  const platforms = readArray(data, "platforms").map((value, index) => {
+    const path = `platforms[${index}]`;
+    const platform = readObject(value, path);
+    const middleTiles = readNumber(platform, "middleTiles", path);
+    if (!Number.isInteger(middleTiles) || middleTiles < 0) {
+      throw new Error(`Invalid level: ${path}.middleTiles must be a count`);
+    }
+    const oneWay = platform.oneWay ?? false;
+    if (typeof oneWay !== "boolean") {
+      throw new Error(`Invalid level: ${path}.oneWay must be true or false`);
+    }
+    // The body is as wide as the field says, the tiles as wide as their count
+    const width = readNumber(platform, "width", path);
+    if (width !== (middleTiles + 2) * ASSETS.PLATFORM.TILE_WIDTH) {
+      throw new Error(
+        `Invalid level: ${path}.width must match its ${middleTiles} middle tiles`
+      );
+    }
+    const behavior =
+      platform.behavior === undefined
+        ? undefined
+        : readPlatformBehavior(platform.behavior, `${path}.behavior`);
+    return {
+      x: readNumber(platform, "x", path),
+      y: readNumber(platform, "y", path),
+      width,
+      middleTiles,
+      ...(oneWay ? { oneWay } : {}),
+      ...(behavior ? { behavior } : {}),
+    };
+  });
+  if (platforms.length === 0) {
+    throw new Error("Invalid level: a level needs at least one platform");
+  }
+
+  const crates = readArray(data, "crates").map((value, index): CrateLayout => {
+    const path = `crates[${index}]`;
+    const size = readObject(value, path).size;
+    if (size !== "big" && size !== "small") {
+      throw new Error(`Invalid level: ${path}.size must be "big" or "small"`);
+    }
+    return { ...readPlatformEntity(value, path, platforms.length), size };
+  });
+
+  const name = typeof data.name === "string" ? data.name.trim() : "";
+
+  const abilities =
+    data.abilities === undefined
+      ? undefined
+      : readArray(data, "abilities").map((value, index) => {
+          if (!isAbilityKey(value)) {
+            throw new Error(
+              `Invalid level: abilities[${index}] is not an ability`
+            );
+          }
+          return value;
+        });
+
+  return {
+    version: LEVEL_FORMAT_VERSION,
+    ...(data.seed === undefined
+      ? {}
+      : { seed: readNumber(data, "seed", "level") >>> 0 }),
+    ...(name ? { name } : {}),
+    world: {
+      width: readPositive(world, "width", "world"),
+      height: readPositive(world, "height", "world"),
+    },
+    spawn: readPoint(data.spawn, "spawn"),
+    deathSensorY: readNumber(data, "deathSensorY", "level"),
+    platforms,
+    coins: readArray(data, "coins").map((value, index) =>
+      readPoint(value, `coins[${index}]`)
+    ),
+    crates,
+    enemies: readArray(data, "enemies").map((value, index) =>
+      readPlatformEntity(value, `enemies[${index}]`, platforms.length)
+    ),
+    tiles: readArray(data, "tiles").map((value, index) =>
+      readTile(value, `tiles[${index}]`, platforms.length)
+    ),
+    checkpoints: readArray(data, "checkpoints").map((value, index) =>
+      readPlatformEntity(value, `checkpoints[${index}]`, platforms.length)
+    ),
+    finish:
+      data.finish === undefined
+        ? getDefaultFinish(platforms)
+        : readPlatformEntity(data.finish, "finish", platforms.length),
+    ...(abilities ? { abilities } : {}),
+  };
+}
@@ -0,0 +1,368 @@
+/**
+ * @file levelLayout.ts
+ * @description Plans procedural levels as plain data.
+ * Platform heights wander across the world height, while every gap and step
+ * is checked against the duck's jump model so the level stays reachable.
+ * Layouts use the JSON level format from `levelFormat.ts`, so generated levels
+ * can be exported, edited and replayed like hand-authored ones.
+ * Has no Phaser or Box2D dependency, so layouts can be planned and verified
+ * headless; `levelLoader.ts` turns a layout into game entities.
+ */
+import { ASSETS, LEVEL, PHYSICS, WORLD } from "@constants";
+
+import { canReach, getJumpProfile, maxJumpHeight } from "./jumpPhysics";
+import {
+  LEVEL_FORMAT_VERSION,
+  LevelLayout,
+  PlatformLayout,
+  getDefaultFinish,
+} from "./levelFormat";
+import { SeededRandom } from "./random";
+
+/**
+ * Y position of the top collision surface of a platform.
+ * Mirrors the collision box built by the Platform entity.
+ * @param platform The platform layout
+ * @returns Surface y position in pixels
+ */
+export function getPlatformSurfaceY(platform: PlatformLayout): number {
+  const tileHeight = ASSETS.PLATFORM.TILE_HEIGHT;
+  return (
+    platform.y -
+    tileHeight * PHYSICS.PLATFORM.COLLISION_OFFSET -
+    (tileHeight * PHYSICS.PLATFORM.COLLISION_HEIGHT_SCALE) / 2
+  );
+}
+
+/**
+ * Plans a level by placing composite platforms procedurally.
+ * @param seed Seed for every random choice, so the same seed always plans the same level.
+ * @returns The planned level layout
+ */
+export function planLevel(seed: number): LevelLayout {
+  const rng = new SeededRandom(seed);
+
+  const tileWidth = ASSETS.PLATFORM.TILE_WIDTH; // Width of a single platform tile
+  const minPlatformLengthTiles = 3; // Min number of middle tiles
+  const maxPlatformLengthTiles = 10; // Max number of middle tiles
+  const minGapWidthTiles = 2; // Minimum gap width in tiles
+  const maxGapWidthTiles = 5; // Maximum gap width in tiles
+  const edgePadding = 100; // Padding from world edges
+  const crateChance = 0.3; // Chance of a crate on a long enough platform
+  const minCratePlatformTiles = 6; // Min middle tiles for a crate platform
+  const enemyChance = 0.25; // Chance of an enemy on a crate-free platform
+  const minEnemyPlatformTiles = 5; // Min middle tiles for an enemy platform
+  const oneWayChance = 0.2; // Chance of a platform being jump-through
+  const movingChance = 0.1; // Chance of an empty platform moving
+  const fallingChance = 0.08; // Chance of an empty platform falling when stood on
+  const crumblingChance = 0.08; // Chance of an empty platform crumbling when stood on
+  const minMoveRange = 60; // Min distance a moving platform travels in pixels
+  const maxMoveRange = 160; // Max distance a moving platform travels in pixels
+  const springChance = 0.06; // Chance of a spring on a static, empty platform
+  const spikesChance = 0.1; // Chance of spikes on a static, empty platform
+  const conveyorChance = 0.08; // Chance of a conveyor on a static, empty platform
+  const iceChance = 0.08; // Chance of ice on a static, empty platform
+  const minSpikesPlatformTiles = 6; // Min middle tiles for a spike platform
+  const maxSpikesTiles = 2; // Max tiles a spike strip covers, short enough to jump over
+  const heightStep = 4; // Pixels removed from a step while repairing it
+
+  // Jump envelope of the duck, with the safety factor already applied
+  const jumpProfile = getJumpProfile();
+  const maxRise = Math.floor(
+    maxJumpHeight(jumpProfile) - LEVEL.LANDING_CLEARANCE
+  );
+
+  const layout: LevelLayout = {
+    version: LEVEL_FORMAT_VERSION,
+    seed,
+    world: { width: WORLD.WIDTH, height: WORLD.HEIGHT },
+    spawn: { x: 0, y: 0 },
+    deathSensorY: 0,
+    platforms: [],
+    coins: [],
+    crates: [],
+    enemies: [],
+    tiles: [],
+    checkpoints: [],
+    finish: { platform: 0, x: 0 },
+  };
+
+  let currentX = edgePadding;
+  // Checkpoints go on the first free platform past this x position
+  let nextCheckpointX = edgePadding + LEVEL.CHECKPOINT_SPACING;
+  // Start halfway down the usable height and wander towards random targets
+  let platformY = Math.round((LEVEL.MIN_PLATFORM_Y + LEVEL.MAX_PLATFORM_Y) / 2);
+  let targetY = rng.between(LEVEL.MIN_PLATFORM_Y, LEVEL.MAX_PLATFORM_Y);
+
+  /**
+   * Picks the gap to the next platform and its height, then repairs the
+   * step until the duck can make the jump. Advances currentX past the gap
+   * and moves platformY to the next platform's height.
+   */
+  const planNextJump = () => {
+    // Head for a new target height once the current one is reached
+    if (Math.abs(platformY - targetY) < heightStep) {
+      targetY = rng.between(LEVEL.MIN_PLATFORM_Y, LEVEL.MAX_PLATFORM_Y);
+    }
+
+    let gapWidthTiles = rng.between(minGapWidthTiles, maxGapWidthTiles);
+    // Move part of the way towards the target (positive rise is upwards)
+    const towardsTarget = Math.min(
+      Math.max(platformY - targetY, -LEVEL.MAX_DROP),
+      maxRise
+    );
+    let rise = Math.round(towardsTarget * rng.floatBetween(0.5, 1));
+
+    // Repair: lower the step first, then shrink the gap, then drop further
+    while (!canReach(jumpProfile, gapWidthTiles * tileWidth, rise)) {
+      if (rise > 0) {
+        rise = Math.max(0, rise - heightStep);
+      } else if (gapWidthTiles > minGapWidthTiles) {
+        gapWidthTiles--;
+      } else if (platformY - rise + heightStep <= LEVEL.MAX_PLATFORM_Y) {
+        rise -= heightStep;
+      } else {
+        throw new Error(
+          `Level generator cannot build a reachable step at x=${currentX}; check PHYSICS.PLAYER and LEVEL constants`
+        );
+      }
+    }
+
+    currentX += gapWidthTiles * tileWidth;
+    platformY -= rise;
+  };
+
+  /**
+   * Adds a platform starting at currentX, with a coin above every tile.
+   * @returns Index of the new platform
+   */
+  const addPlatform = (middleTiles: number): number => {
+    // Total tiles including left and right edges
+    const totalTiles = middleTiles + 2;
+    const width = totalTiles * tileWidth;
+
+    layout.platforms.push({
+      x: currentX + width / 2,
+      y: platformY,
+      width,
+      middleTiles,
+    });
+
+    // --- Coin Placement ---
+    const coinY = platformY - LEVEL.COIN_HEIGHT; // Slightly above the platform
+    // Place coins based on the number of *tiles* (edges + middle)
+    for (let i = 0; i < totalTiles; i++) {
+      const coinX = currentX + tileWidth / 2 + i * tileWidth;
+      // Add a small random horizontal offset
+      const offsetX = rng.between(-5, 5);
+      layout.coins.push({ x: coinX + offsetX, y: coinY });
+    }
+    // --- End Coin Placement ---
+
+    return layout.platforms.length - 1;
+  };
+
+  // First platform will determine player start position
+  const firstPlatformMiddleTiles = rng.between(
+    minPlatformLengthTiles,
+    maxPlatformLengthTiles
+  );
+  const firstPlatform = layout.platforms[addPlatform(firstPlatformMiddleTiles)];
+
+  // Player start position 100px above the first platform
+  layout.spawn = { x: firstPlatform.x, y: platformY - 100 };
+  let lowestPlatformY = platformY;
+
+  // Update currentX to the position after the first platform
+  currentX += firstPlatform.width;
+
+  // --- First Gap Generation ---
+  planNextJump();
+
+  // Continue generating the rest of the level
+  while (currentX < WORLD.WIDTH - edgePadding) {
+    // Determine the number of middle tiles for this platform
+    const platformMiddleTiles = rng.between(
+      minPlatformLengthTiles,
+      maxPlatformLengthTiles
+    );
+    const platformPixelWidth = (platformMiddleTiles + 2) * tileWidth;
+
+    // Ensure the platform doesn't exceed world bounds
+    if (currentX + platformPixelWidth > WORLD.WIDTH - edgePadding) {
+      break; // Stop generating if the next platform won't fit
+    }
+
+    const platformIndex = addPlatform(platformMiddleTiles);
+    const platform = layout.platforms[platformIndex];
+    lowestPlatformY = Math.max(lowestPlatformY, platformY);
+
+    // --- Crate Placement ---
+    const hasCrate =
+      platformMiddleTiles >= minCratePlatformTiles && rng.frac() < crateChance;
+    if (hasCrate) {
+      // Keep the crate away from the edges so it can be pushed either way
+      const crateX = rng.between(
+        Math.round(currentX + platformPixelWidth / 4),
+        Math.round(currentX + (platformPixelWidth * 3) / 4)
+      );
+      layout.crates.push({
+        platform: platformIndex,
+        x: crateX,
+        size: rng.frac() < 0.5 ? "big" : "small",
+      });
+    }
+    // --- End Crate Placement ---
+
+    // --- Enemy Placement (never on platforms with crates) ---
+    const hasEnemy =
+      !hasCrate &&
+      platformMiddleTiles >= minEnemyPlatformTiles &&
+      rng.frac() < enemyChance;
+    if (hasEnemy) {
+      layout.enemies.push({ platform: platformIndex, x: platform.x });
+    }
+    // --- End Enemy Placement ---
+
+    if (rng.frac() < oneWayChance) {
+      platform.oneWay = true;
+    }
+
+    // Update currentX to the position after this platform
+    currentX += platformPixelWidth;
+
+    // --- Gap Generation ---
+    planNextJump();
+    // --- End Gap Generation ---
+
+    // --- Platform Behavior (only on platforms nothing stands on) ---
+    const behaviorRoll = rng.frac();
+    const isEmpty = !hasCrate && !hasEnemy;
+    if (isEmpty && behaviorRoll < movingChance) {
+      // Slide through the gaps on both sides, keeping a tile away from the
+      // neighbors, or move up and down. The planned position is on the path,
+      // so the planned jumps stay possible.
+      const previous = layout.platforms[platformIndex - 1];
+      const backRange =
+        platform.x -
+        platform.width / 2 -
+        (previous.x + previous.width / 2) -
+        tileWidth;
+      const aheadRange =
+        currentX - (platform.x + platform.width / 2) - tileWidth;
+      if (backRange + aheadRange >= minMoveRange && rng.frac() < 0.5) {
+        platform.behavior = {
+          type: "moving",
+          path: [
+            { x: -backRange, y: 0 },
+            { x: aheadRange, y: 0 },
+          ],
+          loop: true,
+        };
+      } else {
+        const range = rng.between(minMoveRange, maxMoveRange);
+        platform.behavior = {
+          type: "moving",
+          path: [{ x: 0, y: rng.frac() < 0.5 ? -range : range }],
+        };
+      }
+    } else if (isEmpty && behaviorRoll < movingChance + fallingChance) {
+      // Give the duck time to run across before the platform drops
+      const crossingTime = platform.width / PHYSICS.PLAYER.SPEED;
+      platform.behavior = {
+        type: "falling",
+        delay: Math.max(
+          PHYSICS.PLATFORM.FALLING.DELAY,
+          Math.round(crossingTime * 100) / 100
+        ),
+      };
+    } else if (
+      isEmpty &&
+      behaviorRoll < movingChance + fallingChance + crumblingChance
+    ) {
+      platform.behavior = { type: "crumbling" };
+    }
+    // --- End Platform Behavior ---
+
+    // --- Tile Placement (only on static platforms nothing stands on) ---
+    if (isEmpty && !platform.behavior) {
+      const tileRoll = rng.frac();
+      // Springs and spikes would catch the duck jumping up through a one-way platform
+      const isSolid = !platform.oneWay;
+      if (tileRoll < springChance) {
+        if (isSolid) {
+          // Keep the spring away from the edges
+          layout.tiles.push({
+            type: "spring",
+            platform: platformIndex,
+            x: rng.between(
+              Math.round(platform.x - platform.width / 4),
+              Math.round(platform.x + platform.width / 4)
+            ),
+          });
+        }
+      } else if (tileRoll < springChance + spikesChance) {
+        // Centered, leaving room to land on either side of the strip
+        if (isSolid && platformMiddleTiles >= minSpikesPlatformTiles) {
+          layout.tiles.push({
+            type: "spikes",
+            platform: platformIndex,
+            x: platform.x,
+            width: rng.between(1, maxSpikesTiles) * tileWidth,
+          });
+        }
+      } else if (tileRoll < springChance + spikesChance + conveyorChance) {
+        // The belt covers the middle tiles and runs either way
+        const speed = PHYSICS.TILES.CONVEYOR.SPEED;
+        layout.tiles.push({
+          type: "conveyor",
+          platform: platformIndex,
+          x: platform.x,
+          width: platformMiddleTiles * tileWidth,
+          speed: rng.frac() < 0.5 ? -speed : speed,
+        });
+      } else if (
+        tileRoll <
+        springChance + spikesChance + conveyorChance + iceChance
+      ) {
+        layout.tiles.push({
+          type: "ice",
+          platform: platformIndex,
+          x: platform.x,
+          width: platform.width,
+        });
+      }
+    }
+    // --- End Tile Placement ---
+
+    // --- Checkpoint Placement (on static platforms with nothing on them) ---
+    const hasTile = layout.tiles.some(
+      (tile) => tile.platform === platformIndex
+    );
+    if (
+      isEmpty &&
+      !platform.behavior &&
+      !hasTile &&
+      platform.x >= nextCheckpointX
+    ) {
+      layout.checkpoints.push({ platform: platformIndex, x: platform.x });
+      nextCheckpointX = platform.x + LEVEL.CHECKPOINT_SPACING;
+    }
+    // --- End Checkpoint Placement ---
+  }
+
+  // --- Finish Placement ---
+  // Stand the finish near the right end of the last platform
+  layout.finish = getDefaultFinish(layout.platforms);
+  // The finish needs solid ground that stays put
+  delete layout.platforms[layout.finish.platform].behavior;
+  // A checkpoint next to the finish would be no use
+  layout.checkpoints = layout.checkpoints.filter(
+    (checkpoint) => checkpoint.platform !== layout.finish.platform
+  );
+
+  // Catch falls well below the lowest platform
+  layout.deathSensorY = lowestPlatformY + LEVEL.DEATH_SENSOR_OFFSET;
+
+  return layout;
+}
@@ -0,0 +1,138 @@
+/**
+ * @file levelLoader.ts
+ * @description Builds the game entities of a level from its JSON level data.
+ * Generated levels are planned as data by `levelLayout.ts` and hand-authored
+ * ones are read by `levelFormat.ts`; both are loaded the same way here by
+ * instantiating the platforms, coins, crates, enemies, tiles, checkpoints and
+ * finish they describe.
+ */
+import * as Phaser from "phaser";
+
+import Checkpoint from "@entities/Checkpoint";
+import Coin from "@entities/Coin"; // Moved import order
+import Conveyor from "@entities/Conveyor";
+import Crate from "@entities/Crate";
+import DeathSensor from "@entities/DeathSensor";
+import Enemy from "@entities/Enemy";
+import Finish from "@entities/Finish";
+import Ice from "@entities/Ice";
+import Platform from "@entities/Platform"; // Import the new Platform entity
+import Spikes from "@entities/Spikes";
+import Spring from "@entities/Spring";
+import GameScene from "@scenes/GameScene"; // Import GameScene for type hinting and accessing its methods
+
+import { LevelLayout } from "./levelFormat";
+
+/**
+ * Result of loading a level
+ */
+interface LoadedLevel {
+  /** Platforms of the level, in level data order */
+  platforms: Platform[];
+  /** Checkpoints of the level, in level data order */
+  checkpoints: Checkpoint[];
+  /** Finish flag placed by the level */
+  finish: Finish;
+  /** Sensor that kills the player after falling out of the level */
+  deathSensor: DeathSensor;
+}
+
+/**
+ * Builds every entity of a level into the scene.
+ * @param scene The GameScene instance to add platforms to.
+ * @param coinsGroup The Phaser Group to add created Coin instances to.
+ * @param cratesGroup The Phaser Group to add created Crate instances to.
+ * @param enemiesGroup The Phaser Group to add created Enemy instances to.
+ * @param layout The level data to build.
+ * @returns The platforms, checkpoints, finish flag and death sensor placed by the level.
+ */
+export function buildLevel(
+  scene: GameScene,
+  coinsGroup: Phaser.GameObjects.Group, // Add coinsGroup parameter
+  cratesGroup: Phaser.GameObjects.Group,
+  enemiesGroup: Phaser.GameObjects.Group,
+  layout: LevelLayout
+): LoadedLevel {
+  // Instantiate the Platform entities
+  const platforms = layout.platforms.map(
+    (platform) =>
+      new Platform(
+        scene, // Pass the scene context
+        platform.x,
+        platform.y,
+        platform.width,
+        platform.middleTiles,
+        platform.oneWay,
+        platform.behavior
+      )
+  );
+
+  for (const coinLayout of layout.coins) {
+    const coin = new Coin(scene, coinLayout.x, coinLayout.y); // Create coin
+    coinsGroup.add(coin); // Add to group
+  }
+
+  for (const crateLayout of layout.crates) {
+    const crate = new Crate(
+      scene,
+      platforms[crateLayout.platform],
+      crateLayout.x,
+      crateLayout.size
+    );
+    cratesGroup.add(crate);
+  }
+
+  for (const enemyLayout of layout.enemies) {
+    const enemy = new Enemy(
+      scene,
+      platforms[enemyLayout.platform],
+      enemyLayout.x
+    );
+    enemiesGroup.add(enemy);
+  }
+
+  // Springs, spikes, conveyors and ice hold no state to reset, so the
+  // scene does not need to keep them
+  for (const tileLayout of layout.tiles) {
+    const platform = platforms[tileLayout.platform];
+    switch (tileLayout.type) {
+      case "spring":
+        new Spring(scene, platform, tileLayout.x, tileLayout.launchSpeed);
+        break;
+      case "spikes":
+        new Spikes(scene, platform, tileLayout.x, tileLayout.width);
+        break;
+      case "conveyor":
+        new Conveyor(
+          scene,
+          platform,
+          tileLayout.x,
+          tileLayout.width,
+          tileLayout.speed
+        );
+        break;
+      case "ice":
+        new Ice(scene, platform, tileLayout.x, tileLayout.width);
+        break;
+    }
+  }
+
+  const checkpoints = layout.checkpoints.map(
+    (checkpoint) =>
+      new Checkpoint(scene, platforms[checkpoint.platform], checkpoint.x)
+  );
+
+  const finish = new Finish(
+    scene,
+    platforms[layout.finish.platform],
+    layout.finish.x
+  );
+
+  const deathSensor = new DeathSensor(
+    scene,
+    layout.deathSensorY,
+    layout.world.width
+  );
+
+  return { platforms, checkpoints, finish, deathSensor };
+}
@@ -0,0 +1,182 @@
+/**
+ * @file levelVerifier.ts
+ * @description Headless solvability check for level layouts.
+ * Walks the platform graph using the analytic jump model built from the real
+ * player physics constants and reports which platforms and coins the duck
+ * cannot reach, and whether the finish can be reached at all.
+ * Has no Phaser or Box2D dependency, so it can check thousands of seeds in Node.
+ *
+ * The check is conservative: crates and springs are not used as steps,
+ * enemies, spikes, conveyors and ice are ignored, and coins only count when
+ * they can be grabbed from a platform. Moving, falling and crumbling
+ * platforms are checked where they start.
+ */
+import { ASSETS } from "@constants";
+
+import {
+  JumpProfile,
+  canReach,
+  getJumpProfile,
+  maxJumpHeight,
+} from "./jumpPhysics";
+import { LevelLayout, PlatformLayout } from "./levelFormat";
+import { getPlatformSurfaceY, planLevel } from "./levelLayout";
+
+/**
+ * Result of verifying a level layout
+ */
+export interface LevelVerificationReport {
+  /** Whether the finish can be reached from the spawn point */
+  solvable: boolean;
+  /** Index of the platform the duck lands on after spawning, or -1 */
+  spawnPlatform: number;
+  /** Indices of platforms the duck can never stand on */
+  unreachablePlatforms: number[];
+  /** Indices of coins the duck can never collect */
+  unreachableCoins: number[];
+}
+
+/**
+ * Checks whether the duck can move from one platform onto another.
+ * @param profile The jump profile
+ * @param from The platform the duck stands on
+ * @param to The platform the duck wants to reach
+ */
+function canMoveBetween(
+  profile: JumpProfile,
+  from: PlatformLayout,
+  to: PlatformLayout
+): boolean {
+  const fromLeft = from.x - from.width / 2;
+  const fromRight = from.x + from.width / 2;
+  const toLeft = to.x - to.width / 2;
+  const toRight = to.x + to.width / 2;
+  const rise = getPlatformSurfaceY(from) - getPlatformSurfaceY(to);
+
+  if (toLeft >= fromRight) {
+    return canReach(profile, toLeft - fromRight, rise);
+  }
+  if (fromLeft >= toRight) {
+    return canReach(profile, fromLeft - toRight, rise);
+  }
+
+  // The platforms overlap horizontally, so the duck has to get around the
+  // target's edge: it needs room beside the target on its own platform
+  // (going up) or the target must stick out past its own edge (going down)
+  const room = profile.bodyWidth;
+  if (rise > 0) {
+    const hasRoom = fromLeft <= toLeft - room || fromRight >= toRight + room;
+    return hasRoom && canReach(profile, 0, rise);
+  }
+  return toLeft <= fromLeft - room / 2 || toRight >= fromRight + room / 2;
+}
+
+/**
+ * Finds the platform the duck lands on when dropped from a point.
+ * @param layout The level layout
+ * @param x Drop x position in pixels
+ * @param y Drop y position in pixels
+ * @returns Index of the highest platform below the point, or -1
+ */
+function findPlatformBelow(layout: LevelLayout, x: number, y: number): number {
+  let found = -1;
+  let foundSurfaceY = Infinity;
+
+  layout.platforms.forEach((platform, index) => {
+    const surfaceY = getPlatformSurfaceY(platform);
+    const isBelow = surfaceY >= y;
+    const isUnder = Math.abs(x - platform.x) <= platform.width / 2;
+    if (isBelow && isUnder && surfaceY < foundSurfaceY) {
+      found = index;
+      foundSurfaceY = surfaceY;
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Verifies that a level layout can be completed.
+ * @param layout The level layout to check
+ * @param profile Jump profile to check with; defaults to the real player physics
+ * @returns The verification report
+ */
+export function verifyLevel(
+  layout: LevelLayout,
+  profile: JumpProfile = getJumpProfile(1)
+): LevelVerificationReport {
+  const { platforms } = layout;
+  const reachable = new Array<boolean>(platforms.length).fill(false);
+
+  // Flood fill the platform graph from wherever the duck lands after spawning
+  const spawnPlatform = findPlatformBelow(
+    layout,
+    layout.spawn.x,
+    layout.spawn.y
+  );
+  const queue: number[] = [];
+  if (spawnPlatform >= 0) {
+    reachable[spawnPlatform] = true;
+    queue.push(spawnPlatform);
+  }
+
+  while (queue.length > 0) {
+    const from = platforms[queue.shift() as number];
+    platforms.forEach((to, index) => {
+      if (!reachable[index] && canMoveBetween(profile, from, to)) {
+        reachable[index] = true;
+        queue.push(index);
+      }
+    });
+  }
+
+  const unreachablePlatforms = platforms
+    .map((_platform, index) => index)
+    .filter((index) => !reachable[index]);
+
+  // A coin counts when the duck's body can touch it from a reachable platform
+  const grabHeight =
+    maxJumpHeight(profile) + profile.bodyHeight + ASSETS.COIN.SIZE / 2;
+  const unreachableCoins = layout.coins
+    .map((_coin, index) => index)
+    .filter((index) => {
+      const coin = layout.coins[index];
+      return !platforms.some((platform, platformIndex) => {
+        if (!reachable[platformIndex]) return false;
+        const height = getPlatformSurfaceY(platform) - coin.y;
+        const reach = platform.width / 2 + profile.bodyWidth / 2;
+        return (
+          Math.abs(coin.x - platform.x) <= reach &&
+          height >= 0 &&
+          height <= grabHeight
+        );
+      });
+    });
+
+  return {
+    solvable: reachable[layout.finish.platform] ?? false,
+    spawnPlatform,
+    unreachablePlatforms,
+    unreachableCoins,
+  };
+}
+
+/**
+ * Plans and verifies a range of seeds. Run by `npm run verify-levels`.
+ * @param firstSeed The first seed to check
+ * @param count How many consecutive seeds to check
+ * @returns The seeds whose levels cannot be completed
+ */
+export function findUnsolvableSeeds(
+  firstSeed: number,
+  count: number
+): number[] {
+  const unsolvable: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const seed = (firstSeed + i) >>> 0;
+    if (!verifyLevel(planLevel(seed)).solvable) {
+      unsolvable.push(seed);
+    }
+  }
+  return unsolvable;
+}
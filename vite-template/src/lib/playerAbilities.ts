@@ -0,0 +1,247 @@
+/**
+ * @file playerAbilities.ts
+ * @description Optional movement abilities the player can be granted and lose
+ * at runtime: double jump, wall slide with wall jump, and dash.
+ * Each ability hooks into the player's physics step at a few fixed points
+ * (movement, jumping, gravity and player state), so new abilities can be added
+ * without touching the player's own movement code.
+ */
+import { PHYSICS } from "@constants";
+import type Player from "@entities/Player";
+import {
+  b2Body_GetLinearVelocity,
+  b2Body_SetGravityScale,
+  b2Body_SetLinearVelocity,
+  b2Vec2,
+} from "@PhaserBox2D";
+
+import { AbilityKey } from "./levelFormat";
+import { InputActions } from "./playerInput";
+import { PlayerStateKey, PlayerStates } from "./playerStateMachine";
+
+/**
+ * Base class of all abilities. Every hook does nothing by default,
+ * so an ability only overrides the ones it needs.
+ */
+export abstract class PlayerAbility {
+  abstract readonly key: AbilityKey;
+
+  /**
+   * Runs at the start of every physics step, before movement is applied.
+   * @param _player The player using the ability
+   * @param _actions Action state for this step
+   * @param _stepSeconds Length of the physics step
+   */
+  update(_player: Player, _actions: InputActions, _stepSeconds: number) {}
+
+  /**
+   * Whether the ability drives horizontal movement instead of the input.
+   */
+  controlsMovement(): boolean {
+    return false;
+  }
+
+  /**
+   * Tries to use a jump press the normal jump could not use.
+   * @param _player The player using the ability
+   * @returns Whether the ability jumped
+   */
+  tryJump(_player: Player): boolean {
+    return false;
+  }
+
+  /**
+   * Adjusts the body after the jump gravity was chosen for this step.
+   * @param _player The player using the ability
+   */
+  constrain(_player: Player) {}
+
+  /**
+   * Player state to be in instead of the default selection.
+   * @returns A player state, or null to keep the default
+   */
+  getState(): PlayerStateKey | null {
+    return null;
+  }
+
+  /**
+   * Clears all state, when the player respawns or loses the ability.
+   */
+  reset() {}
+}
+
+/**
+ * Extra jumps in mid-air, refilled on landing
+ */
+export class DoubleJumpAbility extends PlayerAbility {
+  readonly key = "doubleJump";
+  private jumpsLeft = 0;
+
+  update(player: Player) {
+    if (player.playerState.isGrounded) {
+      this.jumpsLeft = PHYSICS.PLAYER.ABILITIES.DOUBLE_JUMP.EXTRA_JUMPS;
+    }
+  }
+
+  tryJump(player: Player): boolean {
+    if (this.jumpsLeft <= 0 || player.playerState.isGrounded) return false;
+
+    this.jumpsLeft--;
+    player.startJump();
+    return true;
+  }
+
+  reset() {
+    this.jumpsLeft = 0;
+  }
+}
+
+/**
+ * Slides slowly down platform walls the player pushes against,
+ * and jumps off them away from the wall
+ */
+export class WallSlideAbility extends PlayerAbility {
+  readonly key = "wallSlide";
+  // Side of the wall beside the player: -1 left, 1 right, 0 none
+  private wallSide = 0;
+  private isSliding = false;
+  private controlLockTimer = 0;
+
+  update(player: Player, actions: InputActions, stepSeconds: number) {
+    this.controlLockTimer = Math.max(0, this.controlLockTimer - stepSeconds);
+
+    if (
+      !player.bodyId ||
+      player.playerState.isGrounded ||
+      player.playerState.isDead
+    ) {
+      this.wallSide = 0;
+      this.isSliding = false;
+      return;
+    }
+
+    this.wallSide = player.getWallSide();
+    const velocityY = b2Body_GetLinearVelocity(player.bodyId).y;
+    this.isSliding =
+      this.wallSide !== 0 &&
+      velocityY < 0 &&
+      Math.sign(actions.moveX) === this.wallSide;
+  }
+
+  controlsMovement(): boolean {
+    return this.controlLockTimer > 0;
+  }
+
+  tryJump(player: Player): boolean {
+    if (this.wallSide === 0 || player.playerState.isGrounded) return false;
+
+    const { JUMP_SPEED_X, CONTROL_LOCK_TIME } =
+      PHYSICS.PLAYER.ABILITIES.WALL_SLIDE;
+    player.startJump((-this.wallSide * JUMP_SPEED_X) / PHYSICS.SCALE);
+    player.setFlipX(this.wallSide > 0);
+
+    // Keep the input from steering straight back into the wall
+    this.controlLockTimer = CONTROL_LOCK_TIME;
+    this.isSliding = false;
+    return true;
+  }
+
+  constrain(player: Player) {
+    if (!this.isSliding || !player.bodyId) return;
+
+    const velocity = b2Body_GetLinearVelocity(player.bodyId);
+    const maxFallSpeed =
+      PHYSICS.PLAYER.ABILITIES.WALL_SLIDE.MAX_SLIDE_SPEED / PHYSICS.SCALE;
+    if (velocity.y < -maxFallSpeed) {
+      b2Body_SetLinearVelocity(
+        player.bodyId,
+        new b2Vec2(velocity.x, -maxFallSpeed)
+      );
+    }
+  }
+
+  getState(): PlayerStateKey | null {
+    return this.isSliding ? PlayerStates.WALL_SLIDE : null;
+  }
+
+  reset() {
+    this.wallSide = 0;
+    this.isSliding = false;
+    this.controlLockTimer = 0;
+  }
+}
+
+/**
+ * Short horizontal burst of speed that ignores gravity, with a cooldown
+ */
+export class DashAbility extends PlayerAbility {
+  readonly key = "dash";
+  private dashTimer = 0;
+  private cooldownTimer = 0;
+  private direction = 1;
+
+  update(player: Player, actions: InputActions, stepSeconds: number) {
+    this.cooldownTimer = Math.max(0, this.cooldownTimer - stepSeconds);
+
+    if (this.dashTimer > 0) {
+      this.dashTimer = Math.max(0, this.dashTimer - stepSeconds);
+      return;
+    }
+
+    if (
+      !actions.dashPressed ||
+      this.cooldownTimer > 0 ||
+      player.playerState.isDead
+    ) {
+      return;
+    }
+
+    // Dash the way the input points, or the way the duck faces
+    if (actions.moveX !== 0) {
+      this.direction = Math.sign(actions.moveX);
+    } else {
+      this.direction = player.flipX ? -1 : 1;
+    }
+    this.dashTimer = PHYSICS.PLAYER.ABILITIES.DASH.DURATION;
+    this.cooldownTimer = PHYSICS.PLAYER.ABILITIES.DASH.COOLDOWN;
+  }
+
+  controlsMovement(): boolean {
+    return this.dashTimer > 0;
+  }
+
+  constrain(player: Player) {
+    if (this.dashTimer <= 0 || !player.bodyId) return;
+
+    const speed = PHYSICS.PLAYER.ABILITIES.DASH.SPEED / PHYSICS.SCALE;
+    b2Body_SetLinearVelocity(
+      player.bodyId,
+      new b2Vec2(this.direction * speed, 0)
+    );
+    b2Body_SetGravityScale(player.bodyId, 0);
+  }
+
+  getState(): PlayerStateKey | null {
+    return this.dashTimer > 0 ? PlayerStates.DASH : null;
+  }
+
+  reset() {
+    this.dashTimer = 0;
+    this.cooldownTimer = 0;
+  }
+}
+
+/**
+ * Creates a fresh instance of an ability.
+ * @param key The ability to create
+ */
+export function createAbility(key: AbilityKey): PlayerAbility {
+  switch (key) {
+    case "doubleJump":
+      return new DoubleJumpAbility();
+    case "wallSlide":
+      return new WallSlideAbility();
+    case "dash":
+      return new DashAbility();
+  }
+}
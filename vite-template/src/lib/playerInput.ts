@@ -0,0 +1,146 @@
+/**
+ * @file playerInput.ts
+ * @description Merges every way of controlling the duck into one action state.
+ * Keyboard (cursor keys and WASD), the on-screen MobileControls buttons and
+ * the first connected gamepad are read once per frame, so the player entity
+ * does not need to know which device is being used. Keys follow the player's
+ * key bindings from the settings.
+ */
+import * as Phaser from "phaser";
+
+import { INPUT } from "@constants";
+import MobileControls from "@ui/MobileControls";
+
+import { InputAction, KeyBindings, settings } from "./settings";
+
+/**
+ * Player actions for the current frame
+ */
+export interface InputActions {
+  /** Horizontal movement from -1 (left) to 1 (right) */
+  moveX: number;
+  /** Jump was pressed since the last physics step consumed it */
+  jumpPressed: boolean;
+  /** Jump is being held down */
+  jumpHeld: boolean;
+  /** Down is being held, to drop through one-way platforms with jump */
+  downHeld: boolean;
+  /** Pause was pressed this frame */
+  pausePressed: boolean;
+  /** Dash was pressed since the last physics step consumed it */
+  dashPressed: boolean;
+}
+
+export class PlayerInput {
+  scene: Phaser.Scene;
+  mobileControls: MobileControls;
+  /** The merged action state, refreshed by update() */
+  actions: InputActions = {
+    moveX: 0,
+    jumpPressed: false,
+    jumpHeld: false,
+    downHeld: false,
+    pausePressed: false,
+    dashPressed: false,
+  };
+  private keys = {} as Record<InputAction, Phaser.Input.Keyboard.Key[]>;
+  private wasPauseHeld = false;
+  private wasDashHeld = false;
+
+  /**
+   * @param scene The scene to read keyboard and gamepad input from
+   * @param mobileControls The on-screen touch buttons
+   */
+  constructor(scene: Phaser.Scene, mobileControls: MobileControls) {
+    this.scene = scene;
+    this.mobileControls = mobileControls;
+    this.bindKeys(settings.get().keys);
+  }
+
+  /**
+   * Reads the actions from new keys, e.g. after the player rebound them.
+   * @param bindings Phaser key names for every action
+   */
+  bindKeys(bindings: KeyBindings) {
+    const keyboard = this.scene.input.keyboard;
+    for (const action of Object.keys(bindings) as InputAction[]) {
+      this.keys[action] = keyboard
+        ? bindings[action].map((name) => keyboard.addKey(name))
+        : [];
+    }
+  }
+
+  /**
+   * Reads all input devices and refreshes the action state.
+   * Call once per frame, before the physics steps.
+   * @returns The refreshed action state
+   */
+  update(): InputActions {
+    const touch = this.mobileControls.getState();
+    const pad = this.getGamepad();
+    const isDown = (keys: Phaser.Input.Keyboard.Key[]) =>
+      keys.some((key) => key.isDown);
+
+    let moveX = 0;
+    if (isDown(this.keys.LEFT) || touch.left || pad?.left) moveX -= 1;
+    if (isDown(this.keys.RIGHT) || touch.right || pad?.right) moveX += 1;
+
+    // An analog stick overrides the digital inputs once pushed past the deadzone
+    const stickX = pad?.leftStick.x ?? 0;
+    if (Math.abs(stickX) > INPUT.GAMEPAD.DEADZONE) {
+      moveX = Phaser.Math.Clamp(stickX, -1, 1);
+    }
+
+    const jumpHeld =
+      isDown(this.keys.JUMP) ||
+      touch.up ||
+      (pad?.isButtonDown(INPUT.GAMEPAD.JUMP_BUTTON) ?? false);
+    const downHeld =
+      isDown(this.keys.DOWN) ||
+      (pad?.down ?? false) ||
+      (pad?.leftStick.y ?? 0) > INPUT.GAMEPAD.DEADZONE;
+    const pauseHeld =
+      isDown(this.keys.PAUSE) ||
+      (pad?.isButtonDown(INPUT.GAMEPAD.PAUSE_BUTTON) ?? false);
+    const dashHeld =
+      isDown(this.keys.DASH) ||
+      (pad?.isButtonDown(INPUT.GAMEPAD.DASH_BUTTON) ?? false);
+
+    // A press is latched until a physics step consumes it, so a frame
+    // without a physics step cannot swallow a jump
+    const jumpPressed =
+      this.actions.jumpPressed || (jumpHeld && !this.actions.jumpHeld);
+    const dashPressed =
+      this.actions.dashPressed || (dashHeld && !this.wasDashHeld);
+
+    this.actions = {
+      moveX,
+      jumpPressed,
+      jumpHeld,
+      downHeld,
+      pausePressed: pauseHeld && !this.wasPauseHeld,
+      dashPressed,
+    };
+    this.wasPauseHeld = pauseHeld;
+    this.wasDashHeld = dashHeld;
+
+    return this.actions;
+  }
+
+  /**
+   * Clears the latched presses once a physics step has acted on them.
+   */
+  consumePresses() {
+    this.actions.jumpPressed = false;
+    this.actions.dashPressed = false;
+  }
+
+  /**
+   * Gets the first connected gamepad, if the gamepad plugin is enabled.
+   */
+  private getGamepad(): Phaser.Input.Gamepad.Gamepad | null {
+    const gamepad = this.scene.input.gamepad;
+    if (!gamepad || gamepad.total === 0) return null;
+    return gamepad.getAll()[0] ?? null;
+  }
+}
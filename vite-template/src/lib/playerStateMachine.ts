@@ -0,0 +1,220 @@
+/**
+ * Player State Machine
+ *
+ * Finite State Machine (FSM) for the duck's movement states. Every state maps
+ * to one of the ASSETS.PLAYER animations, and only declared transitions are
+ * allowed. Transitions are announced as events, so UI, audio and analytics
+ * can react to jumps, landings and deaths without polling the player.
+ *
+ * State Flow:
+ * IDLE <-> RUN -> JUMP -> FALL -> LAND -> IDLE / RUN
+ * WALL_SLIDE -> JUMP (wall jump) / FALL / LAND
+ * any living state -> DASH / WALL_SLIDE / DEAD, DEAD -> (reset) IDLE
+ * DASH started in the air -> LAND when it ends on the ground
+ *
+ * @module playerStateMachine
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS } from "@constants";
+
+/**
+ * Enumeration of the player's movement states
+ * @readonly
+ * @enum {string}
+ */
+export const PlayerStates = {
+  /** Standing still on the ground */
+  IDLE: "IDLE",
+  /** Running on the ground */
+  RUN: "RUN",
+  /** Rising after a jump or bounce */
+  JUMP: "JUMP",
+  /** Falling through the air */
+  FALL: "FALL",
+  /** Just touched down after being in the air */
+  LAND: "LAND",
+  /** Sliding down a wall */
+  WALL_SLIDE: "WALL_SLIDE",
+  /** Dashing horizontally */
+  DASH: "DASH",
+  /** Killed, until the player is reset */
+  DEAD: "DEAD",
+} as const;
+
+export type PlayerStateKey = (typeof PlayerStates)[keyof typeof PlayerStates];
+
+/**
+ * Events emitted by the player state machine
+ * @readonly
+ * @enum {string}
+ */
+export const PlayerEvents = {
+  /** Any state change, with the new and the previous state */
+  STATE_CHANGED: "stateChanged",
+  /** The player jumped, double jumped, wall jumped or bounced */
+  JUMPED: "jumped",
+  /** The player touched down after being in the air */
+  LANDED: "landed",
+  /** The player was killed */
+  DIED: "died",
+} as const;
+
+const { IDLE, RUN, JUMP, FALL, LAND, WALL_SLIDE, DASH, DEAD } = PlayerStates;
+
+/**
+ * Defines valid state transitions for the FSM.
+ * Each state maps to an array of valid next states. IDLE is reachable from
+ * every living state, so the player can be halted anywhere.
+ * @private
+ * @readonly
+ */
+const StateTransitions: Record<PlayerStateKey, readonly PlayerStateKey[]> = {
+  [IDLE]: [RUN, JUMP, FALL, WALL_SLIDE, DASH, DEAD],
+  [RUN]: [IDLE, JUMP, FALL, WALL_SLIDE, DASH, DEAD],
+  [JUMP]: [IDLE, JUMP, FALL, LAND, WALL_SLIDE, DASH, DEAD],
+  [FALL]: [IDLE, JUMP, LAND, WALL_SLIDE, DASH, DEAD],
+  [LAND]: [IDLE, RUN, JUMP, FALL, WALL_SLIDE, DASH, DEAD],
+  [WALL_SLIDE]: [IDLE, JUMP, FALL, LAND, DASH, DEAD],
+  [DASH]: [IDLE, RUN, JUMP, FALL, LAND, WALL_SLIDE, DEAD],
+  [DEAD]: [],
+};
+
+/**
+ * Animation played in each state
+ * @private
+ * @readonly
+ */
+const StateAnimations: Record<PlayerStateKey, string> = {
+  [IDLE]: ASSETS.PLAYER.IDLE.KEY,
+  [RUN]: ASSETS.PLAYER.RUN.KEY,
+  [JUMP]: ASSETS.PLAYER.JUMP.KEY,
+  [FALL]: ASSETS.PLAYER.FALL.KEY,
+  [LAND]: ASSETS.PLAYER.IDLE.KEY,
+  [WALL_SLIDE]: ASSETS.PLAYER.FALL.KEY,
+  [DASH]: ASSETS.PLAYER.RUN.KEY,
+  [DEAD]: ASSETS.PLAYER.DEAD.KEY,
+};
+
+/**
+ * Gets the animation key of a state
+ * @param {PlayerStateKey} state - The state to look up
+ * @returns {string} An ASSETS.PLAYER animation key
+ */
+export function getStateAnimation(state: PlayerStateKey): string {
+  return StateAnimations[state];
+}
+
+/**
+ * PlayerStateMachine class tracking the current state of one player
+ * @class
+ */
+export class PlayerStateMachine extends Phaser.Events.EventEmitter {
+  private currentState: PlayerStateKey = IDLE;
+  private timeInState = 0;
+  // Whether the current dash started in the air, so it ends in a landing
+  private isAirDash = false;
+
+  /**
+   * Gets the current state
+   * @returns {PlayerStateKey}
+   */
+  get state() {
+    return this.currentState;
+  }
+
+  /**
+   * Gets the seconds spent in the current state
+   * @returns {number}
+   */
+  get stateTime() {
+    return this.timeInState;
+  }
+
+  /**
+   * Checks if the current state is an airborne one, a dash started in the
+   * air included
+   * @returns {boolean}
+   */
+  get isAirborne() {
+    return (
+      this.currentState === JUMP ||
+      this.currentState === FALL ||
+      this.currentState === WALL_SLIDE ||
+      (this.currentState === DASH && this.isAirDash)
+    );
+  }
+
+  /**
+   * Handles state transitions in the FSM
+   * @param {PlayerStateKey} newState - The state to transition to
+   * @returns {boolean} Whether the transition was successful
+   */
+  transition(newState: PlayerStateKey): boolean {
+    if (!StateTransitions[this.currentState].includes(newState)) {
+      console.warn(
+        `Invalid player state transition: ${this.currentState} -> ${newState}`
+      );
+      return false;
+    }
+
+    const previousState = this.currentState;
+    if (newState === DASH) {
+      this.isAirDash = this.isAirborne;
+    }
+    this.currentState = newState;
+    this.timeInState = 0;
+    this.emit(PlayerEvents.STATE_CHANGED, newState, previousState);
+    this._emitEntryEvents(newState);
+
+    return true;
+  }
+
+  /**
+   * Moves to a state unless the player is already in it.
+   * Used for the per-step state selection, where staying put is normal.
+   * @param {PlayerStateKey} newState - The state to be in
+   * @returns {boolean} Whether the player is now in that state
+   */
+  enter(newState: PlayerStateKey): boolean {
+    return newState === this.currentState || this.transition(newState);
+  }
+
+  /**
+   * Advances the time spent in the current state
+   * @param {number} stepSeconds - Length of the physics step
+   */
+  update(stepSeconds: number) {
+    this.timeInState += stepSeconds;
+  }
+
+  /**
+   * Returns to IDLE from any state, including DEAD, e.g. on respawn
+   */
+  reset() {
+    const previousState = this.currentState;
+    this.currentState = IDLE;
+    this.timeInState = 0;
+    this.isAirDash = false;
+    this.emit(PlayerEvents.STATE_CHANGED, IDLE, previousState);
+  }
+
+  /**
+   * Emits the gameplay event that goes with entering a state
+   * @private
+   * @param {PlayerStateKey} state - The state being entered
+   */
+  _emitEntryEvents(state: PlayerStateKey) {
+    switch (state) {
+      case JUMP:
+        this.emit(PlayerEvents.JUMPED);
+        break;
+      case LAND:
+        this.emit(PlayerEvents.LANDED);
+        break;
+      case DEAD:
+        this.emit(PlayerEvents.DIED);
+        break;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * @file random.ts
+ * @description Seeded pseudo-random number generation for reproducible levels.
+ * Uses the mulberry32 algorithm, so the same seed always yields the same
+ * sequence of numbers on every platform.
+ */
+
+/**
+ * Deterministic pseudo-random number generator
+ */
+export class SeededRandom {
+  /** The seed this generator was created with */
+  readonly seed: number;
+  private state: number;
+
+  /**
+   * @param seed Unsigned 32-bit integer seed
+   */
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Returns the next float in the range [0, 1)
+   */
+  frac(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Returns an integer between min and max, both inclusive
+   * @param min Lowest possible value
+   * @param max Highest possible value
+   */
+  between(min: number, max: number): number {
+    return min + Math.floor(this.frac() * (max - min + 1));
+  }
+
+  /**
+   * Returns a float between min (inclusive) and max (exclusive)
+   * @param min Lowest possible value
+   * @param max Upper bound
+   */
+  floatBetween(min: number, max: number): number {
+    return min + this.frac() * (max - min);
+  }
+}
+
+/**
+ * Creates a new random seed
+ * @returns Unsigned 32-bit integer seed
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Converts user input into a seed.
+ * Numeric strings are used as-is, any other text is hashed (FNV-1a) so
+ * memorable words can be used as seeds too.
+ * @param value The seed text, e.g. from a URL query parameter
+ * @returns Unsigned 32-bit integer seed, or null for empty input
+ */
+export function parseSeed(value: string | null | undefined): number | null {
+  const text = value?.trim();
+  if (!text) return null;
+
+  if (/^\d+$/.test(text)) {
+    return Number(text) >>> 0;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Reads the seed from the page URL, e.g. `?seed=12345`
+ * @returns The seed from the URL, or null if none was given
+ */
+export function getSeedFromUrl(): number | null {
+  return parseSeed(new URLSearchParams(window.location.search).get("seed"));
+}
@@ -0,0 +1,321 @@
+/**
+ * @file records.ts
+ * @description Keeps the player's records in localStorage, so they survive a
+ * page reload: the best score, coin total, completion time and death count
+ * of every level, and a history of the latest runs.
+ * Saved records carry a schema version. Records saved by an older build are
+ * migrated step by step; records that cannot be read are moved aside and the
+ * player starts with empty records, so a bad save never breaks the game.
+ */
+import { RECORDS } from "@constants";
+
+import type { LevelLayout } from "./levelFormat";
+
+/** Schema version of the saved records */
+export const RECORDS_VERSION = 2;
+
+/** Records of one level */
+export interface LevelRecord {
+  /** Highest score of a single run, see scoring.ts */
+  bestScore: number;
+  /** Most coins collected in a single run */
+  bestCoins: number;
+  /** Fastest completion in milliseconds, or null if never completed */
+  bestTime: number | null;
+  /** Lives lost on this level over all runs */
+  deaths: number;
+  /** Runs played to the end, completed or not */
+  runs: number;
+}
+
+/** How a run ended */
+export type RunOutcome = "complete" | "gameOver";
+
+/** A finished run, as kept in the history */
+export interface RunRecord {
+  /** Level the run was played on, see getLevelKey() */
+  level: string;
+  outcome: RunOutcome;
+  /** Final score of the run */
+  score: number;
+  /** Coins collected in the run */
+  coins: number;
+  /** Play time in milliseconds */
+  time: number;
+  /** Lives lost in the run */
+  deaths: number;
+  /** When the run ended, in milliseconds since the epoch */
+  date: number;
+}
+
+/** Everything saved in localStorage */
+interface RecordsData {
+  version: number;
+  /** Records by level key */
+  levels: Record<string, LevelRecord>;
+  /** Finished runs over all levels, newest first */
+  history: RunRecord[];
+}
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Upgrades saved records by one schema version, keyed by the version they
+ * upgrade from. Add a step here whenever RECORDS_VERSION is raised, so the
+ * records saved by older builds are kept.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 2 added scores; older runs were never scored
+  1: (data) => ({
+    ...data,
+    version: 2,
+    levels: isObject(data.levels)
+      ? Object.fromEntries(
+          Object.entries(data.levels).map(([key, record]) => [
+            key,
+            isObject(record) ? { bestScore: 0, ...record } : record,
+          ])
+        )
+      : data.levels,
+    history: Array.isArray(data.history)
+      ? data.history.map((run: unknown) =>
+          isObject(run) ? { score: 0, ...run } : run
+        )
+      : data.history,
+  }),
+};
+
+/**
+ * Identifies a level in the records: generated levels by seed, hand-authored
+ * levels by name.
+ * @param layout The level
+ * @returns e.g. "seed:12345" or "level:Tutorial"
+ */
+export function getLevelKey(layout: LevelLayout): string {
+  return layout.seed !== undefined
+    ? `seed:${layout.seed}`
+    : `level:${layout.name ?? "Custom"}`;
+}
+
+function createEmptyRecords(): RecordsData {
+  return { version: RECORDS_VERSION, levels: {}, history: [] };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Reads the records of one level.
+ * @returns The records, or null if they are damaged
+ */
+function readLevelRecord(value: unknown): LevelRecord | null {
+  if (!isObject(value)) return null;
+
+  const { bestScore, bestCoins, bestTime, deaths, runs } = value;
+  if (!isCount(bestScore) || !isCount(bestCoins)) return null;
+  if (!isCount(deaths) || !isCount(runs)) return null;
+  if (bestTime !== null && !isCount(bestTime)) return null;
+
+  return { bestScore, bestCoins, bestTime, deaths, runs };
+}
+
+/**
+ * Reads one run of the history.
+ * @returns The run, or null if it is damaged
+ */
+function readRunRecord(value: unknown): RunRecord | null {
+  if (!isObject(value)) return null;
+
+  const { level, outcome, score, coins, time, deaths, date } = value;
+  if (typeof level !== "string") return null;
+  if (outcome !== "complete" && outcome !== "gameOver") return null;
+  if (!isCount(score) || !isCount(coins)) return null;
+  if (!isCount(time) || !isCount(deaths) || !isCount(date)) return null;
+
+  return { level, outcome, score, coins, time, deaths, date };
+}
+
+/**
+ * Parses saved records, migrating them to the current schema version.
+ * Damaged entries are dropped one by one, the rest is kept.
+ * @param json The saved text
+ * @returns The records
+ * @throws Error when the text is not records this build can read
+ */
+export function parseRecords(json: string): RecordsData {
+  const parsed: unknown = JSON.parse(json);
+  if (!isObject(parsed)) {
+    throw new Error("Invalid records: not an object");
+  }
+
+  let data = parsed;
+  let version = data.version;
+  if (typeof version !== "number" || !Number.isInteger(version)) {
+    throw new Error("Invalid records: version must be a whole number");
+  }
+  if (version > RECORDS_VERSION) {
+    throw new Error(`Records version ${version} is newer than this build`);
+  }
+  while (version < RECORDS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from records version ${version}`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  const { levels, history } = data;
+  if (!isObject(levels) || !Array.isArray(history)) {
+    throw new Error("Invalid records: levels or history missing");
+  }
+
+  const records = createEmptyRecords();
+  for (const [key, value] of Object.entries(levels)) {
+    const record = readLevelRecord(value);
+    if (record) {
+      records.levels[key] = record;
+    } else {
+      console.warn(`Dropping damaged records of ${key}`);
+    }
+  }
+  records.history = history
+    .map(readRunRecord)
+    .filter((run): run is RunRecord => run !== null)
+    .slice(0, RECORDS.HISTORY_LENGTH);
+
+  return records;
+}
+
+/**
+ * RecordStore class keeping the records in memory and in localStorage
+ * @class
+ */
+class RecordStore {
+  // Loaded on first use, so importing this module does not touch localStorage
+  private data: RecordsData | null = null;
+
+  /**
+   * Gets the records of a level
+   * @param {string} level - Level key, see getLevelKey()
+   * @returns {LevelRecord | null} The records, or null if the level was never played
+   */
+  getLevel(level: string): LevelRecord | null {
+    return this.load().levels[level] ?? null;
+  }
+
+  /**
+   * Gets the latest finished runs, newest first
+   * @param {string} [level] - Only runs of this level, see getLevelKey()
+   * @returns {RunRecord[]}
+   */
+  getHistory(level?: string): RunRecord[] {
+    const { history } = this.load();
+    return level === undefined
+      ? [...history]
+      : history.filter((run) => run.level === level);
+  }
+
+  /**
+   * Counts a lost life on a level
+   * @param {string} level - Level key, see getLevelKey()
+   */
+  recordDeath(level: string) {
+    this.getOrCreateLevel(level).deaths++;
+    this.save();
+  }
+
+  /**
+   * Adds a finished run to the history and updates the best score, the best
+   * coin total and, for completed runs, the best time of its level
+   * @param run - The run; `date` defaults to now
+   * @returns {LevelRecord} The updated records of the level
+   */
+  recordRun(run: Omit<RunRecord, "date"> & { date?: number }): LevelRecord {
+    const record = this.getOrCreateLevel(run.level);
+    record.runs++;
+    record.bestScore = Math.max(record.bestScore, run.score);
+    record.bestCoins = Math.max(record.bestCoins, run.coins);
+    if (run.outcome === "complete") {
+      record.bestTime =
+        record.bestTime === null
+          ? run.time
+          : Math.min(record.bestTime, run.time);
+    }
+
+    const { history } = this.load();
+    history.unshift({ ...run, date: run.date ?? Date.now() });
+    history.length = Math.min(history.length, RECORDS.HISTORY_LENGTH);
+
+    this.save();
+    return { ...record };
+  }
+
+  /**
+   * Forgets every record
+   */
+  clear() {
+    this.data = createEmptyRecords();
+    this.save();
+  }
+
+  private getOrCreateLevel(level: string): LevelRecord {
+    const { levels } = this.load();
+    levels[level] ??= {
+      bestScore: 0,
+      bestCoins: 0,
+      bestTime: null,
+      deaths: 0,
+      runs: 0,
+    };
+    return levels[level];
+  }
+
+  /**
+   * Reads the records from localStorage the first time they are needed.
+   * Unreadable records are moved to the backup key and replaced by empty ones.
+   */
+  private load(): RecordsData {
+    if (this.data) return this.data;
+
+    let json: string | null = null;
+    try {
+      json = localStorage.getItem(RECORDS.STORAGE_KEY);
+    } catch (error) {
+      console.error("Failed to load records from localStorage:", error);
+    }
+
+    this.data = createEmptyRecords();
+    if (json === null) return this.data;
+
+    try {
+      this.data = parseRecords(json);
+    } catch (error) {
+      console.warn("Stored records cannot be read, starting over:", error);
+      try {
+        localStorage.setItem(RECORDS.BACKUP_KEY, json);
+      } catch (backupError) {
+        console.error("Failed to back up unreadable records:", backupError);
+      }
+    }
+    return this.data;
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(RECORDS.STORAGE_KEY, JSON.stringify(this.load()));
+    } catch (error) {
+      console.error("Failed to save records to localStorage:", error);
+    }
+  }
+}
+
+/**
+ * The game-wide record store
+ */
+export const records = new RecordStore();
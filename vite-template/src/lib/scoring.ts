@@ -0,0 +1,258 @@
+/**
+ * @file scoring.ts
+ * @description Scores a run.
+ * ScoreKeeper follows the current run through the event bus and the player's
+ * position: coins, coin streaks, lost lives and the distance covered towards
+ * the finish. Coins taken back on losing a life take their streak points
+ * with them, so collecting them again earns nothing extra. Play time comes from the game state, which stops the clock
+ * while the game is paused. computeScore() turns these stats into points and
+ * a medal, measured against thresholds derived from the level itself.
+ */
+import * as Phaser from "phaser";
+
+import { PHYSICS, SCORING } from "@constants";
+import { GameStates, gameState } from "@gameState";
+
+import { eventBus } from "./eventBus";
+import { LevelLayout } from "./levelFormat";
+
+/** Medals in order, one star each after "none" */
+export const MEDALS = ["none", "bronze", "silver", "gold"] as const;
+
+export type Medal = (typeof MEDALS)[number];
+
+/** What happened in a run */
+export interface RunStats {
+  /** Coins held at the end of the run */
+  coins: number;
+  /** Bonus points earned by coin streaks */
+  comboPoints: number;
+  /** Longest coin streak */
+  bestStreak: number;
+  /** Lives lost */
+  deaths: number;
+  /** Furthest distance from the spawn towards the finish in meters */
+  distance: number;
+  /** Play time in milliseconds, pauses excluded */
+  time: number;
+  /** Whether the player reached the finish */
+  completed: boolean;
+}
+
+/** Per-level targets a run is measured against */
+export interface ScoreThresholds {
+  /** Distance from the spawn to the finish in meters */
+  levelDistance: number;
+  /** Time of a par run in milliseconds */
+  parTime: number;
+  /** Smallest score for each medal, by medal */
+  medals: Record<Exclude<Medal, "none">, number>;
+}
+
+/** Points of a run, item by item */
+export interface ScoreResult {
+  stats: RunStats;
+  thresholds: ScoreThresholds;
+  coinPoints: number;
+  comboPoints: number;
+  distancePoints: number;
+  completionPoints: number;
+  timePoints: number;
+  deathPenalty: number;
+  /** Sum of all points, never below zero */
+  total: number;
+  medal: Medal;
+  /** 0 to 3, one per medal step */
+  stars: number;
+}
+
+/**
+ * Derives the targets of a level from its layout, so every generated or
+ * hand-authored level gets medals that fit its length and coins.
+ * @param layout The level
+ * @returns The par time and the score needed for each medal
+ */
+export function getScoreThresholds(layout: LevelLayout): ScoreThresholds {
+  const levelPixels = Math.max(0, layout.finish.x - layout.spawn.x);
+  const levelDistance = levelPixels / PHYSICS.SCALE;
+  const target =
+    layout.coins.length * SCORING.COIN_POINTS +
+    Math.round(levelDistance * SCORING.DISTANCE_POINTS) +
+    SCORING.COMPLETION_POINTS;
+
+  return {
+    levelDistance,
+    parTime: (levelPixels / SCORING.PAR_SPEED) * 1000,
+    medals: {
+      bronze: Math.round(target * SCORING.MEDALS.BRONZE),
+      silver: Math.round(target * SCORING.MEDALS.SILVER),
+      gold: Math.round(target * SCORING.MEDALS.GOLD),
+    },
+  };
+}
+
+/**
+ * Scores a run.
+ * @param stats What happened in the run
+ * @param thresholds The targets of the level, see getScoreThresholds()
+ * @returns The points item by item, the total and the medal
+ */
+export function computeScore(
+  stats: RunStats,
+  thresholds: ScoreThresholds
+): ScoreResult {
+  const coinPoints = stats.coins * SCORING.COIN_POINTS;
+  const distancePoints = Math.round(
+    Math.min(stats.distance, thresholds.levelDistance) * SCORING.DISTANCE_POINTS
+  );
+  const completionPoints = stats.completed ? SCORING.COMPLETION_POINTS : 0;
+  const secondsUnderPar = (thresholds.parTime - stats.time) / 1000;
+  const timePoints = stats.completed
+    ? Math.max(0, Math.round(secondsUnderPar * SCORING.TIME_POINTS))
+    : 0;
+  const deathPenalty = stats.deaths * SCORING.DEATH_PENALTY;
+
+  const total = Math.max(
+    0,
+    coinPoints +
+      stats.comboPoints +
+      distancePoints +
+      completionPoints +
+      timePoints -
+      deathPenalty
+  );
+
+  let stars = 0;
+  if (total >= thresholds.medals.gold) {
+    stars = 3;
+  } else if (total >= thresholds.medals.silver) {
+    stars = 2;
+  } else if (total >= thresholds.medals.bronze) {
+    stars = 1;
+  }
+
+  return {
+    stats,
+    thresholds,
+    coinPoints,
+    comboPoints: stats.comboPoints,
+    distancePoints,
+    completionPoints,
+    timePoints,
+    deathPenalty,
+    total,
+    medal: MEDALS[stars],
+    stars,
+  };
+}
+
+/**
+ * ScoreKeeper class collecting the stats of the runs on one level
+ * @class
+ */
+export class ScoreKeeper {
+  readonly thresholds: ScoreThresholds;
+  private spawnX: number;
+  private streak = 0;
+  private bestStreak = 0;
+  private comboPoints = 0;
+  // Combo stats at the last checkpoint, restored when coins are rolled back
+  private checkpointCombo = { bestStreak: 0, comboPoints: 0 };
+  // Play time of the last collected coin, for telling streaks apart
+  private lastCoinTime = -Infinity;
+  private deaths = 0;
+  // Furthest player x position right of the spawn in pixels
+  private furthestX = 0;
+
+  /**
+   * Creates a score keeper for a level. Stats are reset whenever a new run
+   * gets READY, and listeners are dropped when the scene shuts down.
+   * @param {Phaser.Scene} scene - The scene playing the level
+   * @param {LevelLayout} layout - The level
+   */
+  constructor(scene: Phaser.Scene, layout: LevelLayout) {
+    this.thresholds = getScoreThresholds(layout);
+    this.spawnX = layout.spawn.x;
+    this.reset();
+
+    eventBus.subscribe(scene, "coinCollected", () => this.collectCoin());
+    eventBus.subscribe(scene, "playerDied", () => {
+      this.deaths++;
+      this.streak = 0;
+    });
+    eventBus.subscribe(scene, "checkpointReached", () => {
+      this.checkpointCombo = {
+        bestStreak: this.bestStreak,
+        comboPoints: this.comboPoints,
+      };
+    });
+    eventBus.subscribe(scene, "coinsRolledBack", () => {
+      this.bestStreak = this.checkpointCombo.bestStreak;
+      this.comboPoints = this.checkpointCombo.comboPoints;
+      this.streak = 0;
+    });
+    eventBus.subscribe(scene, "stateChanged", ({ to }) => {
+      if (to === GameStates.READY) {
+        this.reset();
+      }
+    });
+  }
+
+  /**
+   * Clears the stats for a new run
+   */
+  reset() {
+    this.streak = 0;
+    this.bestStreak = 0;
+    this.comboPoints = 0;
+    this.checkpointCombo = { bestStreak: 0, comboPoints: 0 };
+    this.lastCoinTime = -Infinity;
+    this.deaths = 0;
+    this.furthestX = this.spawnX;
+  }
+
+  /**
+   * Follows the player's progress towards the finish. Called every frame
+   * while the game is playing.
+   * @param {number} x - Player x position in pixels
+   */
+  trackPlayer(x: number) {
+    this.furthestX = Math.max(this.furthestX, x);
+  }
+
+  /**
+   * Gets the stats of the current run so far
+   * @returns {RunStats}
+   */
+  getStats(): RunStats {
+    return {
+      coins: gameState.getCoins(),
+      comboPoints: this.comboPoints,
+      bestStreak: this.bestStreak,
+      deaths: this.deaths,
+      distance: (this.furthestX - this.spawnX) / PHYSICS.SCALE,
+      time: gameState.getElapsedTime(),
+      completed: gameState.isLevelComplete,
+    };
+  }
+
+  /**
+   * Scores the current run so far
+   * @returns {ScoreResult}
+   */
+  getResult(): ScoreResult {
+    return computeScore(this.getStats(), this.thresholds);
+  }
+
+  private collectCoin() {
+    const now = gameState.getElapsedTime();
+    this.streak =
+      now - this.lastCoinTime <= SCORING.COMBO.WINDOW ? this.streak + 1 : 1;
+    this.lastCoinTime = now;
+
+    this.bestStreak = Math.max(this.bestStreak, this.streak);
+    this.comboPoints +=
+      Math.min(this.streak - 1, SCORING.COMBO.MAX_STREAK) *
+      SCORING.COMBO.POINTS;
+  }
+}
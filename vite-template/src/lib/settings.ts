@@ -0,0 +1,243 @@
+/**
+ * @file settings.ts
+ * @description Keeps the player's settings in localStorage: volumes, key
+ * bindings, the size, position and layout of the touch buttons, screen
+ * shake, reduced motion and the debug overlay.
+ * Every change is published on the event bus as `settingsChanged`, so a
+ * running scene applies it right away. Saved settings carry a schema version;
+ * a damaged or unknown value falls back to its default, the rest is kept.
+ */
+import * as Phaser from "phaser";
+
+import { INPUT, PHYSICS, SETTINGS, UI } from "@constants";
+
+import { eventBus } from "./eventBus";
+
+/** Schema version of the saved settings */
+export const SETTINGS_VERSION = 1;
+
+/** Actions that can be bound to keys */
+export type InputAction = keyof typeof INPUT.KEYS;
+
+/** Phaser key names for every action */
+export type KeyBindings = Record<InputAction, string[]>;
+
+/** Which side of the screen the jump button sits on */
+export type MobileLayout = "jumpRight" | "jumpLeft";
+
+export interface Settings {
+  /** Volume of all sound, 0 to 1 */
+  masterVolume: number;
+  /** Volume of sound effects, 0 to 1, on top of the master volume */
+  sfxVolume: number;
+  /** Volume of music, 0 to 1, on top of the master volume */
+  musicVolume: number;
+  keys: KeyBindings;
+  /** Scale of the on-screen touch buttons */
+  mobileScale: number;
+  /** Distance of the touch buttons from the sides of the screen in pixels */
+  mobileMarginX: number;
+  /** Distance of the touch buttons from the bottom of the screen in pixels */
+  mobileMarginY: number;
+  mobileLayout: MobileLayout;
+  /** Whether the camera shakes when the player dies */
+  screenShake: boolean;
+  /** Snap the camera instead of smoothing it, and leave out shaking and squashing */
+  reducedMotion: boolean;
+  /** Show physics and player details and the death sensor */
+  debugOverlay: boolean;
+}
+
+/**
+ * Creates the settings a new player starts with.
+ * @returns The defaults, taken from the constants
+ */
+export function createDefaultSettings(): Settings {
+  const keys = {} as KeyBindings;
+  for (const action of Object.keys(INPUT.KEYS) as InputAction[]) {
+    keys[action] = [...INPUT.KEYS[action]];
+  }
+
+  return {
+    masterVolume: 1,
+    sfxVolume: 1,
+    musicVolume: 1,
+    keys,
+    mobileScale: UI.MOBILE_CONTROLS.SCALE,
+    mobileMarginX: UI.MOBILE_CONTROLS.PADDING,
+    mobileMarginY: UI.MOBILE_CONTROLS.PADDING,
+    mobileLayout: "jumpRight",
+    screenShake: true,
+    reducedMotion: false,
+    debugOverlay: PHYSICS.DEATH_SENSOR.VISIBLE,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readFraction(value: unknown, fallback: number): number {
+  return typeof value === "number" && value >= 0 && value <= 1
+    ? value
+    : fallback;
+}
+
+function readInRange(
+  value: unknown,
+  range: { MIN: number; MAX: number },
+  fallback: number
+): number {
+  return typeof value === "number" && value >= range.MIN && value <= range.MAX
+    ? value
+    : fallback;
+}
+
+function readBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === "boolean" ? value : fallback;
+}
+
+/**
+ * Finds the Phaser name of a key, e.g. "SPACE" for key code 32.
+ * @param keyCode The key code of a keyboard event
+ * @returns The name, or null for keys Phaser has no name for
+ */
+export function getKeyName(keyCode: number): string | null {
+  const entry = Object.entries(Phaser.Input.Keyboard.KeyCodes).find(
+    ([, code]) => code === keyCode
+  );
+  return entry ? entry[0] : null;
+}
+
+function isKeyName(name: unknown): name is string {
+  return (
+    typeof name === "string" &&
+    Object.hasOwn(Phaser.Input.Keyboard.KeyCodes, name)
+  );
+}
+
+// An action keeps its default keys unless every saved key is one Phaser knows
+function readKeys(value: unknown, fallback: KeyBindings): KeyBindings {
+  if (!isObject(value)) return fallback;
+
+  const keys = { ...fallback };
+  for (const action of Object.keys(fallback) as InputAction[]) {
+    const names = value[action];
+    if (Array.isArray(names) && names.length > 0 && names.every(isKeyName)) {
+      keys[action] = names;
+    }
+  }
+  return keys;
+}
+
+/**
+ * Parses saved settings. Values that are missing or damaged get their
+ * default, so a bad save only loses the settings it damaged.
+ * @param json The saved text
+ * @returns The settings
+ * @throws Error when the text is not settings this build can read
+ */
+export function parseSettings(json: string): Settings {
+  const data: unknown = JSON.parse(json);
+  if (!isObject(data)) {
+    throw new Error("Invalid settings: not an object");
+  }
+  if (data.version !== SETTINGS_VERSION) {
+    throw new Error(`Unsupported settings version ${String(data.version)}`);
+  }
+
+  const defaults = createDefaultSettings();
+  return {
+    masterVolume: readFraction(data.masterVolume, defaults.masterVolume),
+    sfxVolume: readFraction(data.sfxVolume, defaults.sfxVolume),
+    musicVolume: readFraction(data.musicVolume, defaults.musicVolume),
+    keys: readKeys(data.keys, defaults.keys),
+    mobileScale: readInRange(
+      data.mobileScale,
+      SETTINGS.MOBILE_SCALE,
+      defaults.mobileScale
+    ),
+    mobileMarginX: readInRange(
+      data.mobileMarginX,
+      SETTINGS.MOBILE_MARGIN,
+      defaults.mobileMarginX
+    ),
+    mobileMarginY: readInRange(
+      data.mobileMarginY,
+      SETTINGS.MOBILE_MARGIN,
+      defaults.mobileMarginY
+    ),
+    mobileLayout:
+      data.mobileLayout === "jumpLeft" || data.mobileLayout === "jumpRight"
+        ? data.mobileLayout
+        : defaults.mobileLayout,
+    screenShake: readBoolean(data.screenShake, defaults.screenShake),
+    reducedMotion: readBoolean(data.reducedMotion, defaults.reducedMotion),
+    debugOverlay: readBoolean(data.debugOverlay, defaults.debugOverlay),
+  };
+}
+
+/**
+ * SettingsStore class keeping the settings in memory and in localStorage
+ * @class
+ */
+class SettingsStore {
+  // Loaded on first use, so importing this module does not touch localStorage
+  private current: Settings | null = null;
+
+  /**
+   * Gets the current settings. Treat them as read-only, change them with update()
+   * @returns {Settings}
+   */
+  get(): Readonly<Settings> {
+    return this.load();
+  }
+
+  /**
+   * Changes some settings, saves them and publishes `settingsChanged`
+   * @param changes - The settings to change
+   */
+  update(changes: Partial<Settings>) {
+    this.current = { ...this.load(), ...changes };
+    this.save();
+    eventBus.emit("settingsChanged", { settings: this.current });
+  }
+
+  /**
+   * Puts every setting back to its default
+   */
+  reset() {
+    this.update(createDefaultSettings());
+  }
+
+  private load(): Settings {
+    if (this.current) return this.current;
+
+    this.current = createDefaultSettings();
+    try {
+      const json = localStorage.getItem(SETTINGS.STORAGE_KEY);
+      if (json !== null) {
+        this.current = parseSettings(json);
+      }
+    } catch (error) {
+      console.warn("Stored settings cannot be read, using defaults:", error);
+    }
+    return this.current;
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(
+        SETTINGS.STORAGE_KEY,
+        JSON.stringify({ version: SETTINGS_VERSION, ...this.load() })
+      );
+    } catch (error) {
+      console.error("Failed to save settings to localStorage:", error);
+    }
+  }
+}
+
+/**
+ * The game-wide settings
+ */
+export const settings = new SettingsStore();
@@ -8,8 +8,10 @@ import * as Phaser from "phaser";
 
 import { RENDERER } from "@constants";
 import BootScene from "@scenes/BootScene";
+import EditorScene from "@scenes/EditorScene";
 import GameScene from "@scenes/GameScene";
 import PreloaderScene from "@scenes/PreloaderScene";
+import SettingsScene from "@scenes/SettingsScene";
 
 // Define type for GameConfig
 type GameConfig = Phaser.Types.Core.GameConfig;
@@ -20,8 +22,12 @@ const config: GameConfig = {
   width: RENDERER.WIDTH,
   height: RENDERER.HEIGHT,
   transparent: true,
+  // Gamepads drive the duck alongside the keyboard and touch buttons
+  input: {
+    gamepad: true,
+  },
   // Remove the physics property as we are using external Box2D
-  scene: [BootScene, PreloaderScene, GameScene],
+  scene: [BootScene, PreloaderScene, GameScene, EditorScene, SettingsScene],
   scale: {
     mode: Phaser.Scale.FIT,
     autoCenter: Phaser.Scale.CENTER_BOTH,
@@ -0,0 +1,888 @@
+/**
+ * @file EditorScene.ts
+ * @description In-game level editor.
+ * Shows a level with the real atlas art and lets designers place, drag,
+ * resize and delete platforms, coins, the spawn point, the finish and the
+ * death sensor with mouse and keyboard. Levels can be playtested in the
+ * GameScene with a single key, saved to localStorage and exported or
+ * opened as JSON files.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, EDITOR, SCENES } from "@constants";
+
+import {
+  downloadLevel,
+  loadLevelFromStorage,
+  openLevelFile,
+  saveLevelToStorage,
+} from "../lib/levelFile";
+import {
+  LevelLayout,
+  PointLayout,
+  createEmptyLevel,
+  getDefaultFinish,
+  parseLevel,
+  serializeLevel,
+} from "../lib/levelFormat";
+import { getPlatformSurfaceY } from "../lib/levelLayout";
+import { LevelVerificationReport, verifyLevel } from "../lib/levelVerifier";
+
+/**
+ * An item of the level that can be selected
+ */
+type EditorSelection =
+  | { kind: "platform"; index: number }
+  | { kind: "coin"; index: number }
+  | { kind: "spawn" }
+  | { kind: "finish" }
+  | { kind: "deathSensor" };
+
+/**
+ * What the current left-button drag does
+ */
+type DragMode = "move" | "resizeLeft" | "resizeRight";
+
+const HELP_TEXT = [
+  "Drag: move   Drag platform end: resize   Right drag / arrows / WASD: pan   Wheel: zoom",
+  "1: platform   2: coin   3: spawn   4: death sensor   F: finish   Q/E: shrink/grow   T: one-way   Del: delete",
+  `${EDITOR.PLAYTEST_KEY}: playtest   K: save   L: load   X: export JSON   O: open JSON   N: new level`,
+].join("\n");
+
+export default class EditorScene extends Phaser.Scene {
+  /** The level being edited */
+  layout!: LevelLayout;
+  private levelLayer!: Phaser.GameObjects.Container;
+  private selectionGraphics!: Phaser.GameObjects.Graphics;
+  private statusText!: Phaser.GameObjects.Text;
+  private selection: EditorSelection | null = null;
+  private dragMode: DragMode | null = null;
+  /** Offset from the pointer to the dragged item's position */
+  private dragOffset: PointLayout = { x: 0, y: 0 };
+  /** Snapped position the dragged item was last moved to */
+  private dragPosition: PointLayout | null = null;
+  /** Reachability of the level as drawn, null until it is checked again */
+  private report: LevelVerificationReport | null = null;
+  private isPanning = false;
+  private panKeys: Record<string, Phaser.Input.Keyboard.Key> = {};
+  /** Camera view to restore when coming back from a playtest */
+  private savedView: { scrollX: number; scrollY: number; zoom: number } | null =
+    null;
+
+  constructor() {
+    super({ key: SCENES.EDITOR });
+  }
+
+  /**
+   * Sets up the editor.
+   * @param data Optional scene data; `level` is the level to edit. Without it
+   * the level saved in localStorage is opened, or a new empty level.
+   */
+  create(data: { level?: LevelLayout } = {}) {
+    this.layout = data.level ?? loadLevelFromStorage() ?? createEmptyLevel();
+    this.selection = null;
+    this.dragMode = null;
+    this.isPanning = false;
+
+    this.levelLayer = this.add.container(0, 0);
+    this.selectionGraphics = this.add.graphics();
+
+    this.createHud();
+    this.setupCamera();
+    this.setupInput();
+    this.redraw();
+  }
+
+  update(_time: number, delta: number) {
+    const camera = this.cameras.main;
+    const distance = (EDITOR.PAN_SPEED * delta) / 1000 / camera.zoom;
+    const { left, right, up, down, A, D, W, S } = this.panKeys;
+
+    if (left?.isDown || A?.isDown) camera.scrollX -= distance;
+    if (right?.isDown || D?.isDown) camera.scrollX += distance;
+    if (up?.isDown || W?.isDown) camera.scrollY -= distance;
+    if (down?.isDown || S?.isDown) camera.scrollY += distance;
+  }
+
+  /**
+   * Creates the help and status texts on their own camera, so they stay
+   * the same size while the level is zoomed.
+   */
+  private createHud() {
+    const style = {
+      fontSize: EDITOR.TEXT.FONT_SIZE,
+      color: EDITOR.TEXT.COLOR,
+      backgroundColor: EDITOR.TEXT.BACKGROUND_COLOR,
+      padding: { x: EDITOR.TEXT.PADDING, y: EDITOR.TEXT.PADDING },
+    };
+
+    const helpText = this.add.text(0, 0, HELP_TEXT, style);
+    this.statusText = this.add
+      .text(0, this.cameras.main.height, "", style)
+      .setOrigin(0, 1);
+
+    const hudCamera = this.cameras.add(0, 0, undefined, undefined, false);
+    hudCamera.ignore([this.levelLayer, this.selectionGraphics]);
+    this.cameras.main.ignore([helpText, this.statusText]);
+  }
+
+  /**
+   * Bounds the camera to the level and restores the view from before a playtest.
+   */
+  private setupCamera() {
+    const camera = this.cameras.main;
+    const margin = EDITOR.CAMERA_MARGIN;
+    camera.setBounds(
+      -margin,
+      -margin,
+      this.layout.world.width + margin * 2,
+      this.layout.world.height + margin * 2
+    );
+
+    if (this.savedView) {
+      camera.setZoom(this.savedView.zoom);
+      camera.setScroll(this.savedView.scrollX, this.savedView.scrollY);
+      this.savedView = null;
+    } else {
+      camera.setZoom(1);
+      camera.centerOn(this.layout.spawn.x, this.layout.spawn.y);
+    }
+  }
+
+  private setupInput() {
+    this.input.mouse?.disableContextMenu();
+
+    this.input.on("pointerdown", (pointer: Phaser.Input.Pointer) =>
+      this.onPointerDown(pointer)
+    );
+    this.input.on("pointermove", (pointer: Phaser.Input.Pointer) =>
+      this.onPointerMove(pointer)
+    );
+    this.input.on("pointerup", () => {
+      this.dragMode = null;
+      this.isPanning = false;
+      // Dragging leaves the reachability check for when the item is dropped
+      if (!this.report) {
+        this.setStatus();
+      }
+    });
+    this.input.on(
+      "wheel",
+      (_pointer: unknown, _objects: unknown, _dx: number, dy: number) => {
+        const camera = this.cameras.main;
+        const step = dy > 0 ? -EDITOR.ZOOM.STEP : EDITOR.ZOOM.STEP;
+        camera.setZoom(
+          Phaser.Math.Clamp(
+            camera.zoom + step,
+            EDITOR.ZOOM.MIN,
+            EDITOR.ZOOM.MAX
+          )
+        );
+      }
+    );
+
+    const keyboard = this.input.keyboard;
+    if (!keyboard) return;
+
+    this.panKeys = {
+      ...keyboard.createCursorKeys(),
+      ...(keyboard.addKeys("W,A,S,D") as Record<
+        string,
+        Phaser.Input.Keyboard.Key
+      >),
+    };
+
+    keyboard.on("keydown-ONE", () => this.addPlatform());
+    keyboard.on("keydown-TWO", () => this.addCoin());
+    keyboard.on("keydown-THREE", () => this.moveSpawnToPointer());
+    keyboard.on("keydown-FOUR", () => this.moveDeathSensorToPointer());
+    keyboard.on("keydown-F", () => this.moveFinishToPointer());
+    keyboard.on("keydown-Q", () => this.resizeSelected(-1));
+    keyboard.on("keydown-E", () => this.resizeSelected(1));
+    keyboard.on("keydown-T", () => this.toggleOneWaySelected());
+    keyboard.on("keydown-DELETE", () => this.deleteSelected());
+    keyboard.on("keydown-BACKSPACE", () => this.deleteSelected());
+    keyboard.on(`keydown-${EDITOR.PLAYTEST_KEY}`, () => this.playtest());
+    keyboard.on("keydown-K", () => this.saveToStorage());
+    keyboard.on("keydown-L", () => this.loadFromStorage());
+    keyboard.on("keydown-X", () => downloadLevel(this.layout));
+    keyboard.on("keydown-O", () =>
+      openLevelFile((layout) => this.setLayout(layout, "Opened level file"))
+    );
+    keyboard.on("keydown-N", () =>
+      this.setLayout(createEmptyLevel(), "Started a new level")
+    );
+  }
+
+  /**
+   * Hands the current level to the GameScene. Pressing P there comes back here.
+   */
+  playtest() {
+    let level: LevelLayout;
+    try {
+      // Round trip through JSON so the game plays exactly what would be saved
+      level = parseLevel(serializeLevel(this.layout));
+    } catch (error) {
+      console.error("Cannot playtest level:", error);
+      this.setStatus(`Cannot playtest: ${(error as Error).message}`);
+      return;
+    }
+
+    const camera = this.cameras.main;
+    this.savedView = {
+      scrollX: camera.scrollX,
+      scrollY: camera.scrollY,
+      zoom: camera.zoom,
+    };
+    this.scene.start(SCENES.GAME, { level, fromEditor: true });
+  }
+
+  private saveToStorage() {
+    this.setStatus(
+      saveLevelToStorage(this.layout)
+        ? "Saved level to browser storage"
+        : "Could not save level to browser storage"
+    );
+  }
+
+  private loadFromStorage() {
+    const layout = loadLevelFromStorage();
+    if (layout) {
+      this.setLayout(layout, "Loaded level from browser storage");
+    } else {
+      this.setStatus("No saved level in browser storage");
+    }
+  }
+
+  /**
+   * Replaces the level being edited.
+   * @param layout The new level
+   * @param status Message to show in the status bar
+   */
+  private setLayout(layout: LevelLayout, status: string) {
+    this.layout = layout;
+    this.selection = null;
+    this.setupCamera();
+    this.redraw(status);
+  }
+
+  /**
+   * Gets the pointer position in world coordinates.
+   */
+  private getPointerWorld(pointer = this.input.activePointer): PointLayout {
+    const point = this.cameras.main.getWorldPoint(pointer.x, pointer.y);
+    return { x: point.x, y: point.y };
+  }
+
+  private snap(value: number): number {
+    return Math.round(value / EDITOR.GRID_SIZE) * EDITOR.GRID_SIZE;
+  }
+
+  private onPointerDown(pointer: Phaser.Input.Pointer) {
+    if (pointer.rightButtonDown()) {
+      this.isPanning = true;
+      return;
+    }
+
+    const point = this.getPointerWorld(pointer);
+    this.selection = this.hitTest(point);
+    this.dragMode = null;
+    this.dragPosition = null;
+
+    if (this.selection) {
+      const position = this.getPosition(this.selection);
+      this.dragOffset = { x: position.x - point.x, y: position.y - point.y };
+      this.dragMode = "move";
+
+      if (this.selection.kind === "platform") {
+        const platform = this.layout.platforms[this.selection.index];
+        const tileWidth = ASSETS.PLATFORM.TILE_WIDTH;
+        if (point.x < platform.x - platform.width / 2 + tileWidth) {
+          this.dragMode = "resizeLeft";
+        } else if (point.x > platform.x + platform.width / 2 - tileWidth) {
+          this.dragMode = "resizeRight";
+        }
+      }
+    }
+
+    this.drawSelection();
+  }
+
+  private onPointerMove(pointer: Phaser.Input.Pointer) {
+    if (this.isPanning) {
+      const camera = this.cameras.main;
+      camera.scrollX -= (pointer.x - pointer.prevPosition.x) / camera.zoom;
+      camera.scrollY -= (pointer.y - pointer.prevPosition.y) / camera.zoom;
+      return;
+    }
+    if (!this.dragMode || !this.selection || !pointer.isDown) return;
+
+    const point = this.getPointerWorld(pointer);
+
+    if (this.selection.kind === "platform" && this.dragMode !== "move") {
+      const platform = this.layout.platforms[this.selection.index];
+      const tileWidth = ASSETS.PLATFORM.TILE_WIDTH;
+      const left = platform.x - platform.width / 2;
+      const right = platform.x + platform.width / 2;
+      const tiles =
+        this.dragMode === "resizeRight"
+          ? Math.round((point.x - left) / tileWidth)
+          : Math.round((right - point.x) / tileWidth);
+      this.resizePlatform(
+        this.selection.index,
+        tiles - 2,
+        this.dragMode === "resizeRight"
+      );
+    } else {
+      const position = {
+        x: this.snap(point.x + this.dragOffset.x),
+        y: this.snap(point.y + this.dragOffset.y),
+      };
+      // Only rebuild the level once the item reaches the next grid point
+      if (
+        this.dragPosition?.x === position.x &&
+        this.dragPosition.y === position.y
+      ) {
+        return;
+      }
+      this.dragPosition = position;
+      this.moveSelected(position);
+    }
+  }
+
+  /**
+   * Finds the item under a point, preferring small items over large ones.
+   * @param point The point in world coordinates
+   * @returns The item under the point, or null
+   */
+  private hitTest(point: PointLayout): EditorSelection | null {
+    const candidates: EditorSelection[] = [
+      { kind: "spawn" },
+      { kind: "finish" },
+      ...this.layout.coins.map((_coin, index): EditorSelection => ({
+        kind: "coin",
+        index,
+      })),
+      ...this.layout.platforms.map((_platform, index): EditorSelection => ({
+        kind: "platform",
+        index,
+      })),
+      { kind: "deathSensor" },
+    ];
+
+    return (
+      candidates.find((candidate) =>
+        this.getBounds(candidate).contains(point.x, point.y)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Gets the position an item is dragged by.
+   */
+  private getPosition(selection: EditorSelection): PointLayout {
+    switch (selection.kind) {
+      case "platform":
+        return this.layout.platforms[selection.index];
+      case "coin":
+        return this.layout.coins[selection.index];
+      case "spawn":
+        return this.layout.spawn;
+      case "finish": {
+        const platform = this.layout.platforms[this.layout.finish.platform];
+        return { x: this.layout.finish.x, y: getPlatformSurfaceY(platform) };
+      }
+      case "deathSensor":
+        return { x: 0, y: this.layout.deathSensorY };
+    }
+  }
+
+  /**
+   * Gets the area an item covers, used for picking and highlighting it.
+   */
+  private getBounds(selection: EditorSelection): Phaser.Geom.Rectangle {
+    switch (selection.kind) {
+      case "platform": {
+        const platform = this.layout.platforms[selection.index];
+        return new Phaser.Geom.Rectangle(
+          platform.x - platform.width / 2,
+          platform.y - ASSETS.PLATFORM.TILE_HEIGHT / 2,
+          platform.width,
+          ASSETS.PLATFORM.TILE_HEIGHT
+        );
+      }
+      case "coin": {
+        const coin = this.layout.coins[selection.index];
+        const size = ASSETS.COIN.SIZE;
+        return new Phaser.Geom.Rectangle(
+          coin.x - size / 2,
+          coin.y - size / 2,
+          size,
+          size
+        );
+      }
+      case "spawn": {
+        const { WIDTH, HEIGHT } = ASSETS.PLAYER.SIZE;
+        return new Phaser.Geom.Rectangle(
+          this.layout.spawn.x - WIDTH / 2,
+          this.layout.spawn.y - HEIGHT / 2,
+          WIDTH,
+          HEIGHT
+        );
+      }
+      case "finish": {
+        const { x, y } = this.getPosition(selection);
+        const frame = this.textures.getFrame(
+          ASSETS.ATLAS,
+          ASSETS.FINISH.IDLE.FRAME
+        );
+        return new Phaser.Geom.Rectangle(
+          x - frame.width / 2,
+          y - frame.height,
+          frame.width,
+          frame.height
+        );
+      }
+      case "deathSensor": {
+        const height = EDITOR.DEATH_SENSOR_GRAB_HEIGHT;
+        return new Phaser.Geom.Rectangle(
+          0,
+          this.layout.deathSensorY - height / 2,
+          this.layout.world.width,
+          height
+        );
+      }
+    }
+  }
+
+  /**
+   * Moves the selected item to a new position.
+   * Crates, enemies, tiles, checkpoints and the finish move along with their platform.
+   * @param position The new position in world coordinates
+   */
+  private moveSelected(position: PointLayout) {
+    const selection = this.selection;
+    if (!selection) return;
+
+    switch (selection.kind) {
+      case "platform": {
+        const platform = this.layout.platforms[selection.index];
+        const dx = position.x - platform.x;
+        platform.x = position.x;
+        platform.y = position.y;
+        for (const entity of [
+          ...this.layout.crates,
+          ...this.layout.enemies,
+          ...this.layout.tiles,
+          ...this.layout.checkpoints,
+          this.layout.finish,
+        ]) {
+          if (entity.platform === selection.index) {
+            entity.x += dx;
+          }
+        }
+        break;
+      }
+      case "coin":
+        this.layout.coins[selection.index] = position;
+        break;
+      case "spawn":
+        this.layout.spawn = position;
+        break;
+      case "finish":
+        this.placeFinish(position);
+        break;
+      case "deathSensor":
+        this.layout.deathSensorY = position.y;
+        break;
+    }
+
+    this.markChanged();
+  }
+
+  /**
+   * Stands the finish on the platform under or below a point.
+   * @param point The point in world coordinates
+   * @returns Whether there was a platform to stand it on
+   */
+  private placeFinish(point: PointLayout): boolean {
+    let found = -1;
+    this.layout.platforms.forEach((platform, index) => {
+      const isUnder = Math.abs(point.x - platform.x) <= platform.width / 2;
+      const isBelow = platform.y >= point.y - ASSETS.PLATFORM.TILE_HEIGHT;
+      if (
+        isUnder &&
+        isBelow &&
+        (found < 0 || platform.y < this.layout.platforms[found].y)
+      ) {
+        found = index;
+      }
+    });
+    if (found < 0) return false;
+
+    this.layout.finish = { platform: found, x: point.x };
+    return true;
+  }
+
+  /**
+   * Changes the number of middle tiles of a platform.
+   * Entities standing on it are kept on the platform.
+   * @param index Index of the platform
+   * @param middleTiles The new number of middle tiles
+   * @param keepLeft Whether the left edge stays put (otherwise the right edge does)
+   */
+  private resizePlatform(
+    index: number,
+    middleTiles: number,
+    keepLeft: boolean
+  ) {
+    const platform = this.layout.platforms[index];
+    const tiles = Math.max(EDITOR.MIN_PLATFORM_TILES, middleTiles);
+    if (tiles === platform.middleTiles) return;
+
+    const width = (tiles + 2) * ASSETS.PLATFORM.TILE_WIDTH;
+    const left = keepLeft
+      ? platform.x - platform.width / 2
+      : platform.x + platform.width / 2 - width;
+    platform.x = left + width / 2;
+    platform.width = width;
+    platform.middleTiles = tiles;
+
+    for (const entity of [
+      ...this.layout.crates,
+      ...this.layout.enemies,
+      ...this.layout.tiles,
+      ...this.layout.checkpoints,
+      this.layout.finish,
+    ]) {
+      if (entity.platform === index) {
+        entity.x = Phaser.Math.Clamp(entity.x, left, left + width);
+      }
+    }
+
+    this.markChanged();
+  }
+
+  /**
+   * Grows or shrinks the selected platform by whole tiles, keeping its left edge.
+   * @param tiles Number of middle tiles to add (negative to remove)
+   */
+  private resizeSelected(tiles: number) {
+    if (this.selection?.kind !== "platform") return;
+    const platform = this.layout.platforms[this.selection.index];
+    this.resizePlatform(
+      this.selection.index,
+      platform.middleTiles + tiles,
+      true
+    );
+  }
+
+  /**
+   * Switches the selected platform between solid and one-way.
+   */
+  private toggleOneWaySelected() {
+    if (this.selection?.kind !== "platform") return;
+    const platform = this.layout.platforms[this.selection.index];
+    if (platform.oneWay) {
+      delete platform.oneWay;
+    } else {
+      platform.oneWay = true;
+    }
+    this.markChanged();
+  }
+
+  private addPlatform() {
+    const point = this.getPointerWorld();
+    const middleTiles = EDITOR.NEW_PLATFORM_TILES;
+    this.layout.platforms.push({
+      x: this.snap(point.x),
+      y: this.snap(point.y),
+      width: (middleTiles + 2) * ASSETS.PLATFORM.TILE_WIDTH,
+      middleTiles,
+    });
+    this.selection = {
+      kind: "platform",
+      index: this.layout.platforms.length - 1,
+    };
+    this.markChanged();
+  }
+
+  private addCoin() {
+    const point = this.getPointerWorld();
+    this.layout.coins.push({ x: this.snap(point.x), y: this.snap(point.y) });
+    this.selection = { kind: "coin", index: this.layout.coins.length - 1 };
+    this.markChanged();
+  }
+
+  private moveSpawnToPointer() {
+    const point = this.getPointerWorld();
+    this.selection = { kind: "spawn" };
+    this.moveSelected({ x: this.snap(point.x), y: this.snap(point.y) });
+  }
+
+  private moveDeathSensorToPointer() {
+    this.selection = { kind: "deathSensor" };
+    this.moveSelected({ x: 0, y: this.snap(this.getPointerWorld().y) });
+  }
+
+  private moveFinishToPointer() {
+    if (!this.placeFinish(this.getPointerWorld())) {
+      this.setStatus("The finish needs a platform under the pointer");
+      return;
+    }
+    this.selection = { kind: "finish" };
+    this.markChanged();
+  }
+
+  /**
+   * Deletes the selected platform or coin. Crates, enemies, tiles and
+   * checkpoints on a deleted platform go with it, and the finish moves to the rightmost platform.
+   */
+  private deleteSelected() {
+    const selection = this.selection;
+    if (selection?.kind === "coin") {
+      this.layout.coins.splice(selection.index, 1);
+    } else if (selection?.kind === "platform") {
+      if (this.layout.platforms.length === 1) {
+        this.setStatus("A level needs at least one platform");
+        return;
+      }
+
+      const index = selection.index;
+      const finishWasOnPlatform = this.layout.finish.platform === index;
+      this.layout.platforms.splice(index, 1);
+      this.layout.crates = this.layout.crates.filter(
+        (crate) => crate.platform !== index
+      );
+      this.layout.enemies = this.layout.enemies.filter(
+        (enemy) => enemy.platform !== index
+      );
+      this.layout.tiles = this.layout.tiles.filter(
+        (tile) => tile.platform !== index
+      );
+      this.layout.checkpoints = this.layout.checkpoints.filter(
+        (checkpoint) => checkpoint.platform !== index
+      );
+      for (const entity of [
+        ...this.layout.crates,
+        ...this.layout.enemies,
+        ...this.layout.tiles,
+        ...this.layout.checkpoints,
+        this.layout.finish,
+      ]) {
+        if (entity.platform > index) {
+          entity.platform--;
+        }
+      }
+      if (finishWasOnPlatform) {
+        this.layout.finish = getDefaultFinish(this.layout.platforms);
+      }
+    } else {
+      return;
+    }
+
+    this.selection = null;
+    this.markChanged();
+  }
+
+  /**
+   * Records an edit. An edited generated level no longer matches its seed.
+   */
+  private markChanged() {
+    delete this.layout.seed;
+    this.redraw();
+  }
+
+  /**
+   * Rebuilds the level visuals from the level data.
+   * @param status Message to show in the status bar
+   */
+  private redraw(status?: string) {
+    this.levelLayer.removeAll(true);
+    this.report = null;
+    const { layout } = this;
+
+    const bounds = this.add.graphics();
+    bounds.lineStyle(2, EDITOR.WORLD_BOUNDS_COLOR, 0.5);
+    bounds.strokeRect(0, 0, layout.world.width, layout.world.height);
+    bounds.lineStyle(2, EDITOR.DEATH_SENSOR_COLOR, 1);
+    bounds.lineBetween(
+      0,
+      layout.deathSensorY,
+      layout.world.width,
+      layout.deathSensorY
+    );
+    this.levelLayer.add(bounds);
+
+    for (const platform of layout.platforms) {
+      const tileWidth = ASSETS.PLATFORM.TILE_WIDTH;
+      const left = platform.x - platform.width / 2;
+      const totalTiles = platform.middleTiles + 2;
+      for (let i = 0; i < totalTiles; i++) {
+        let frame: string = ASSETS.PLATFORM.MIDDLE;
+        if (i === 0) frame = ASSETS.PLATFORM.LEFT;
+        if (i === totalTiles - 1) frame = ASSETS.PLATFORM.RIGHT;
+        const tile = this.add.image(
+          left + tileWidth / 2 + i * tileWidth,
+          platform.y,
+          ASSETS.ATLAS,
+          frame
+        );
+        if (platform.oneWay) {
+          tile.setTint(ASSETS.PLATFORM.ONE_WAY_TINT);
+        }
+        this.levelLayer.add(tile);
+      }
+    }
+
+    for (const crate of layout.crates) {
+      const surfaceY = getPlatformSurfaceY(layout.platforms[crate.platform]);
+      const frame =
+        crate.size === "big" ? ASSETS.CRATE.BIG : ASSETS.CRATE.SMALL;
+      this.levelLayer.add(
+        this.add.image(crate.x, surfaceY, ASSETS.ATLAS, frame).setOrigin(0.5, 1)
+      );
+    }
+
+    for (const enemy of layout.enemies) {
+      const surfaceY = getPlatformSurfaceY(layout.platforms[enemy.platform]);
+      this.levelLayer.add(
+        this.add
+          .image(enemy.x, surfaceY, ASSETS.ATLAS, ASSETS.ENEMY.FRAME)
+          .setScale(ASSETS.ENEMY.SCALE)
+          .setOrigin(0.5, 1)
+      );
+    }
+
+    for (const tile of layout.tiles) {
+      const surfaceY = getPlatformSurfaceY(layout.platforms[tile.platform]);
+      const { SPRING, SPIKES, CONVEYOR, ICE } = ASSETS.TILES;
+      switch (tile.type) {
+        case "spring":
+          this.levelLayer.add(
+            this.add.image(tile.x, surfaceY, SPRING.KEY).setOrigin(0.5, 1)
+          );
+          break;
+        case "spikes":
+          this.levelLayer.add(
+            this.add
+              .tileSprite(
+                tile.x,
+                surfaceY,
+                tile.width,
+                SPIKES.HEIGHT,
+                SPIKES.KEY
+              )
+              .setOrigin(0.5, 1)
+          );
+          break;
+        case "conveyor":
+          this.levelLayer.add(
+            this.add
+              .tileSprite(
+                tile.x,
+                surfaceY,
+                tile.width,
+                CONVEYOR.HEIGHT,
+                CONVEYOR.KEY
+              )
+              .setOrigin(0.5, 0)
+          );
+          break;
+        case "ice":
+          this.levelLayer.add(
+            this.add
+              .rectangle(
+                tile.x,
+                surfaceY,
+                tile.width,
+                ICE.HEIGHT,
+                ICE.COLOR,
+                ICE.ALPHA
+              )
+              .setOrigin(0.5, 0)
+          );
+          break;
+      }
+    }
+
+    for (const checkpoint of layout.checkpoints) {
+      const surfaceY = getPlatformSurfaceY(
+        layout.platforms[checkpoint.platform]
+      );
+      this.levelLayer.add(
+        this.add
+          .image(checkpoint.x, surfaceY, ASSETS.CHECKPOINT.INACTIVE_KEY)
+          .setOrigin(0.5, 1)
+      );
+    }
+
+    const finish = this.getPosition({ kind: "finish" });
+    this.levelLayer.add(
+      this.add
+        .image(finish.x, finish.y, ASSETS.ATLAS, ASSETS.FINISH.IDLE.FRAME)
+        .setOrigin(0.5, 1)
+    );
+
+    for (const coin of layout.coins) {
+      this.levelLayer.add(
+        this.add.image(coin.x, coin.y, ASSETS.ATLAS, ASSETS.COIN.FRAME)
+      );
+    }
+
+    this.levelLayer.add(
+      this.add.image(
+        layout.spawn.x,
+        layout.spawn.y,
+        ASSETS.ATLAS,
+        ASSETS.PLAYER.IDLE.FRAME
+      )
+    );
+
+    this.drawSelection();
+    this.setStatus(status);
+  }
+
+  private drawSelection() {
+    this.selectionGraphics.clear();
+    if (!this.selection) return;
+
+    const bounds = this.getBounds(this.selection);
+    this.selectionGraphics.lineStyle(2, EDITOR.SELECTION_COLOR, 1);
+    this.selectionGraphics.strokeRect(
+      bounds.x,
+      bounds.y,
+      bounds.width,
+      bounds.height
+    );
+  }
+
+  /**
+   * Shows the level summary and an optional message in the status bar.
+   * The level is checked for reachability once per change, and only after a
+   * drag ends, as the check gets slow on large levels.
+   * @param message Message to show after the summary
+   */
+  private setStatus(message?: string) {
+    const { layout } = this;
+    if (!this.report && !this.dragMode) {
+      this.report = verifyLevel(layout);
+    }
+
+    let reachability = "checking finish...";
+    if (this.report) {
+      reachability = this.report.solvable
+        ? "finish reachable"
+        : "FINISH UNREACHABLE";
+    }
+    const summary = [
+      layout.name ?? (layout.seed !== undefined ? `Seed ${layout.seed}` : ""),
+      `${layout.platforms.length} platforms`,
+      `${layout.coins.length} coins`,
+      reachability,
+    ]
+      .filter(Boolean)
+      .join("   ");
+    this.statusText.setText(message ? `${summary}\n${message}` : summary);
+  }
+}
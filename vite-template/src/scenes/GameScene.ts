@@ -2,65 +2,140 @@
  * @file GameScene.ts
  * @description The main scene where the gameplay takes place.
  * It initializes the Box2D physics world, creates the player, level elements (platforms, etc.),
- * UI components (coin counter, overlays, mobile controls), handles input, manages game state,
+ * UI components (coin and lives counters, run timer, overlays, mobile controls, debug overlay), handles input, manages game state,
  * and runs the game loop (physics updates, player updates).
+ * Physics runs at a fixed timestep and moving sprites are interpolated
+ * between physics states for rendering. While paused, physics, timers,
+ * animations, tweens and player input stand still and the pause menu is shown.
+ * The player's settings are applied when the scene starts and again whenever
+ * they change, e.g. from the SettingsScene opened over the paused game.
  */
 
 import * as Phaser from "phaser";
 
-import { PHYSICS, WORLD, SCENES } from "@constants";
+import { ANIMATION, EDITOR, PHYSICS, SCENES } from "@constants";
+import Checkpoint from "@entities/Checkpoint";
 import Coin from "@entities/Coin";
+import Conveyor from "@entities/Conveyor";
+import Crate from "@entities/Crate";
 import DeathSensor from "@entities/DeathSensor";
+import Enemy from "@entities/Enemy";
+import Finish from "@entities/Finish";
+import Ice from "@entities/Ice";
+import Platform from "@entities/Platform";
 import Player from "@entities/Player";
-import { gameState } from "@gameState";
+import Spikes from "@entities/Spikes";
+import Spring from "@entities/Spring";
+import { gameState, resetGameState } from "@gameState";
 import {
-  b2Body_GetLinearVelocity,
   b2CreateWorld,
   b2CreateWorldArray,
   b2DefaultWorldDef,
-  b2Shape_GetUserData,
-  b2Shape_IsSensor,
   b2Vec2,
-  b2World_GetContactEvents,
-  b2World_GetSensorEvents,
   b2World_Step,
   UpdateWorldSprites,
   b2WorldId,
   b2Body_SetGravityScale,
-  b2Body_ApplyLinearImpulseToCenter,
+  b2DestroyWorld,
+  ClearWorldSprites,
 } from "@PhaserBox2D";
 import CoinCounter from "@ui/CoinCounter";
+import DebugOverlay from "@ui/DebugOverlay";
 import GameOverOverlay from "@ui/GameOverOverlay";
 import GameStartScreen from "@ui/GameStartScreen";
+import LevelCompleteOverlay from "@ui/LevelCompleteOverlay";
+import LivesCounter from "@ui/LivesCounter";
 import MobileControls from "@ui/MobileControls";
+import PauseButton from "@ui/PauseButton";
+import PauseMenu from "@ui/PauseMenu";
+import RunTimer from "@ui/RunTimer";
 
-import { generateLevel } from "../lib/levelGenerator";
+import { CollisionRegistry } from "../lib/collisionRegistry";
+import { eventBus } from "../lib/eventBus";
+import {
+  FixedTimestep,
+  PhysicsSprite,
+  SpriteInterpolator,
+} from "../lib/fixedTimestep";
+import { downloadLevel } from "../lib/levelFile";
+import { LevelLayout } from "../lib/levelFormat";
+import { planLevel } from "../lib/levelLayout";
+import { buildLevel } from "../lib/levelLoader";
+import { verifyLevel } from "../lib/levelVerifier";
+import { PlayerInput } from "../lib/playerInput";
+import { createSeed, getSeedFromUrl } from "../lib/random";
+import { RunOutcome, getLevelKey, records } from "../lib/records";
+import { ScoreKeeper, ScoreResult } from "../lib/scoring";
+import { InputAction, KeyBindings, Settings, settings } from "../lib/settings";
 
 type b2WorldIdInstance = InstanceType<typeof b2WorldId>;
 type MappedSprite = Phaser.GameObjects.Sprite;
 
-interface ShapeUserData {
-  type: string;
-  [key: string]: unknown;
-}
-
 export default class GameScene extends Phaser.Scene {
   player!: Player;
   deathSensor!: DeathSensor;
-  controls: Phaser.Types.Input.Keyboard.CursorKeys | null = null;
+  playerInput!: PlayerInput;
   coinCounter!: CoinCounter;
+  livesCounter!: LivesCounter;
+  runTimer!: RunTimer;
   startScreen!: GameStartScreen;
   gameOverOverlay!: GameOverOverlay;
+  levelCompleteOverlay!: LevelCompleteOverlay;
+  pauseMenu!: PauseMenu;
+  pauseButton!: PauseButton;
   mobileControls!: MobileControls;
+  debugOverlay!: DebugOverlay;
   coins!: Phaser.GameObjects.Group;
+  crates!: Phaser.GameObjects.Group;
+  enemies!: Phaser.GameObjects.Group;
+  finish!: Finish;
+  platforms: Platform[] = [];
+  checkpoints: Checkpoint[] = [];
+
+  /** Level currently being played */
+  layout!: LevelLayout;
+  /** Seed of the level currently being played, or null for hand-authored levels */
+  seed: number | null = null;
+  /** Whether the level is being playtested from the editor */
+  fromEditor = false;
+  /** Collects the stats of the current run for its score */
+  scoreKeeper!: ScoreKeeper;
 
   bodyIdToSpriteMap = new Map<number, MappedSprite>();
+  /** Collision handlers declared by the entities of this scene */
+  private collisions = new CollisionRegistry();
+
+  /** Steps the physics world at a constant rate */
+  private timestep = new FixedTimestep();
+  /** Smooths moving sprites between physics steps */
+  private interpolator = new SpriteInterpolator();
+  /** How quickly the camera catches up with the player, see applySettings() */
+  private cameraLerp: number = ANIMATION.CAMERA_LERP;
 
   constructor() {
     super({ key: SCENES.GAME });
   }
 
-  create() {
+  /**
+   * Builds the world and the level.
+   * @param data Optional scene data; `level` is a level to play as-is and
+   * `seed` picks a generated level. Without either the `?seed=` URL parameter
+   * is used, or a new random seed. `fromEditor` marks an editor playtest.
+   */
+  create(
+    data: { seed?: number; level?: LevelLayout; fromEditor?: boolean } = {}
+  ) {
+    this.fromEditor = data.fromEditor ?? false;
+    if (data.level) {
+      this.layout = data.level;
+      console.log(`Loading level ${this.getLevelLabel()}`);
+    } else {
+      const seed = data.seed ?? getSeedFromUrl() ?? createSeed();
+      console.log(`Generating level with seed ${seed}`);
+      this.layout = planLevel(seed);
+    }
+    this.seed = this.layout.seed ?? null;
+
     b2CreateWorldArray();
     const worldDef = b2DefaultWorldDef();
     worldDef.gravity = new b2Vec2(0, PHYSICS.GRAVITY.y);
@@ -70,31 +145,147 @@ export default class GameScene extends Phaser.Scene {
     gameState.setWorldId(worldId);
 
     this.bodyIdToSpriteMap.clear();
+    this.registerCollisions(worldId);
+    this.subscribeEvents();
+    this.scoreKeeper = new ScoreKeeper(this, this.layout);
+    this.timestep.reset();
+    this.interpolator.reset();
+    // Leaving the scene while paused must not keep the next level paused
+    this.setFrozen(false);
 
     this.coins = this.add.group();
-
-    const playerPos = generateLevel(this, this.coins);
+    this.crates = this.add.group();
+    this.enemies = this.add.group();
+
+    const level = buildLevel(
+      this,
+      this.coins,
+      this.crates,
+      this.enemies,
+      this.layout
+    );
+    const playerPos = this.layout.spawn;
+    this.platforms = level.platforms;
+    this.checkpoints = level.checkpoints;
+    this.finish = level.finish;
+    this.deathSensor = level.deathSensor;
+
+    const report = verifyLevel(this.layout);
+    if (!report.solvable) {
+      console.warn(`${this.getLevelLabel()} cannot be completed`, report);
+    }
 
     this.player = new Player(this, playerPos.x, playerPos.y);
+    this.player.setAbilities(
+      this.layout.abilities ?? PHYSICS.PLAYER.ABILITIES.DEFAULT
+    );
 
     // Initial setup of player after creation
     this.setupPlayerState();
 
-    this.deathSensor = new DeathSensor(this);
-
-    if (this.input.keyboard) {
-      this.controls = this.input.keyboard.createCursorKeys();
-    }
-
-    this.cameras.main.setBounds(0, 0, WORLD.WIDTH, WORLD.HEIGHT);
-    this.cameras.main.startFollow(this.player, true, 0.1, 0.1);
+    const { world } = this.layout;
+    this.cameras.main.setBounds(0, 0, world.width, world.height);
+    this.cameras.main.startFollow(
+      this.player,
+      true,
+      this.cameraLerp,
+      this.cameraLerp
+    );
     this.cameras.main.centerOn(playerPos.x, playerPos.y);
 
     this.createUI();
     this.setupInput();
+    this.applySettings(settings.get());
     this.startScreen.show();
   }
 
+  /**
+   * Collects the collision handlers of every entity type and hooks the
+   * pre-solve handlers into the world.
+   * @param worldId The world of this level
+   */
+  private registerCollisions(worldId: b2WorldIdInstance) {
+    this.collisions.clear();
+    Checkpoint.registerCollisions(this.collisions);
+    Coin.registerCollisions(this.collisions);
+    Conveyor.registerCollisions(this.collisions);
+    DeathSensor.registerCollisions(this.collisions);
+    Enemy.registerCollisions(this.collisions);
+    Finish.registerCollisions(this.collisions);
+    Ice.registerCollisions(this.collisions);
+    Platform.registerCollisions(this.collisions);
+    Spikes.registerCollisions(this.collisions);
+    Spring.registerCollisions(this.collisions);
+    this.collisions.attachPreSolve(worldId);
+  }
+
+  /**
+   * Listens to the game events this scene reacts to.
+   * The listeners are dropped again when the scene shuts down.
+   */
+  private subscribeEvents() {
+    eventBus.subscribe(this, "bodyCreated", ({ bodyId, sprite }) =>
+      this.bodyIdToSpriteMap.set(bodyId.index1, sprite)
+    );
+    eventBus.subscribe(this, "bodyDestroyed", ({ bodyId }) =>
+      this.bodyIdToSpriteMap.delete(bodyId.index1)
+    );
+    // Use a short delay to allow the death animation to play first
+    eventBus.subscribe(this, "playerDied", () => {
+      this.shakeCamera();
+      this.time.delayedCall(500, () => this.killPlayer());
+    });
+    eventBus.subscribe(this, "checkpointReached", ({ x, y }) =>
+      this.reachCheckpoint(x, y)
+    );
+    eventBus.subscribe(this, "finishReached", () => this.completeLevel());
+    eventBus.subscribe(this, "settingsChanged", ({ settings: changed }) =>
+      this.applySettings(changed)
+    );
+
+    // Pause when the player switches to another tab or minimizes the window
+    const pauseWhenHidden = () => this.pauseGame();
+    this.game.events.on(Phaser.Core.Events.HIDDEN, pauseWhenHidden);
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () =>
+      this.game.events.off(Phaser.Core.Events.HIDDEN, pauseWhenHidden)
+    );
+  }
+
+  /**
+   * Describes the current level for display, by seed or by name.
+   * @returns e.g. "Seed: 12345" or "Level: Tutorial"
+   */
+  getLevelLabel(): string {
+    if (this.seed !== null) {
+      return `Seed: ${this.seed}`;
+    }
+    return `Level: ${this.layout.name ?? "Custom"}`;
+  }
+
+  /**
+   * Scores the current run so far.
+   * @returns The points item by item, the total and the medal
+   */
+  getScore(): ScoreResult {
+    return this.scoreKeeper.getResult();
+  }
+
+  /**
+   * Identifies the current level in the saved records.
+   * @returns e.g. "seed:12345" or "level:Tutorial"
+   */
+  getLevelKey(): string {
+    return getLevelKey(this.layout);
+  }
+
+  /**
+   * Downloads the current level as a JSON file, so generated levels can be
+   * saved, edited and replayed.
+   */
+  exportLevel() {
+    downloadLevel(this.layout);
+  }
+
   /**
    * Reusable method to reset and setup the player's initial state
    * Works for both initial spawn and respawn after death
@@ -122,43 +313,119 @@ export default class GameScene extends Phaser.Scene {
 
   createUI() {
     this.coinCounter = new CoinCounter(this);
+    this.livesCounter = new LivesCounter(this);
+    this.runTimer = new RunTimer(this);
     this.startScreen = new GameStartScreen(this);
     this.gameOverOverlay = new GameOverOverlay(this);
+    this.levelCompleteOverlay = new LevelCompleteOverlay(this);
+    this.pauseMenu = new PauseMenu(this, [
+      { label: "Resume", action: () => this.resumeGame() },
+      { label: "Restart", action: () => this.restartRun() },
+      { label: "Settings", action: () => this.openSettings() },
+      { label: "Quit to Title", action: () => this.restart() },
+    ]);
+    this.pauseButton = new PauseButton(this, () => this.togglePause());
+    this.debugOverlay = new DebugOverlay(this, settings.get().debugOverlay);
   }
 
   setupInput() {
     this.mobileControls = new MobileControls(this);
+    this.playerInput = new PlayerInput(this, this.mobileControls);
+
+    // Playtests go back to the editor with the same key that started them,
+    // that key is left out of the bindings there, see getKeyBindings()
+    if (this.fromEditor) {
+      this.input.keyboard?.on(`keydown-${EDITOR.PLAYTEST_KEY}`, () =>
+        this.openEditor()
+      );
+    }
+  }
+
+  /**
+   * Gets the key bindings to play with. Editor playtests leave out the key
+   * that goes back to the editor, so it does not also pause, jump or dash.
+   * @param keys The player's key bindings
+   */
+  private getKeyBindings(keys: KeyBindings): KeyBindings {
+    if (!this.fromEditor) return keys;
+
+    const bindings = { ...keys };
+    for (const action of Object.keys(bindings) as InputAction[]) {
+      bindings[action] = bindings[action].filter(
+        (name) => name !== EDITOR.PLAYTEST_KEY
+      );
+    }
+    return bindings;
+  }
+
+  /**
+   * Applies the player's settings to the running scene.
+   * @param current The settings to apply
+   */
+  applySettings(current: Readonly<Settings>) {
+    this.sound.volume = current.masterVolume;
+
+    // Reduced motion snaps the camera to the player instead of gliding
+    this.cameraLerp = current.reducedMotion ? 1 : ANIMATION.CAMERA_LERP;
+    this.cameras.main.setLerp(this.cameraLerp, this.cameraLerp);
+
+    this.playerInput.bindKeys(this.getKeyBindings(current.keys));
+    this.mobileControls.applyLayout(current);
+    this.debugOverlay.setVisible(current.debugOverlay);
+    this.deathSensor.setMarkerVisible(current.debugOverlay);
+  }
+
+  /**
+   * Shakes the camera when the player dies, unless turned off in the settings.
+   */
+  private shakeCamera() {
+    const { screenShake, reducedMotion } = settings.get();
+    if (!screenShake || reducedMotion) return;
+
+    const { DURATION, INTENSITY } = ANIMATION.DEATH_SHAKE;
+    this.cameras.main.shake(DURATION, INTENSITY);
   }
 
   update(_time: number, delta: number) {
     const { worldId } = gameState;
     if (!worldId) return;
 
-    b2World_Step(worldId, delta / 1000, 60);
+    const actions = this.playerInput.update();
+    if (actions.pausePressed) {
+      this.togglePause();
+    }
+
+    const movingSprites = this.getMovingSprites();
+    // The physics world stands still while the game is paused
+    const stepTime = gameState.isPaused ? 0 : delta;
+    const alpha = this.timestep.advance(stepTime, () => {
+      this.interpolator.capture(movingSprites);
+      this.fixedUpdate(worldId);
+    });
 
     UpdateWorldSprites(worldId);
+    this.interpolator.apply(movingSprites, alpha);
+    this.platforms.forEach((platform) => platform.syncTiles());
 
-    if (gameState.isPlaying) {
-      this.processPhysicsEvents(worldId);
+    this.runTimer.update();
+    this.debugOverlay.update(this.player, this.bodyIdToSpriteMap.size);
 
-      if (this.player && this.controls) {
-        this.player.update(this.controls);
+    if (gameState.isPlaying) {
+      if (this.player) {
+        this.scoreKeeper.trackPlayer(this.player.x);
 
         // Ensure camera is properly following the player every frame
         this.cameras.main.scrollX = Phaser.Math.Linear(
           this.cameras.main.scrollX,
           this.player.x - this.cameras.main.width / 2,
-          0.1
+          this.cameraLerp
         );
         this.cameras.main.scrollY = Phaser.Math.Linear(
           this.cameras.main.scrollY,
           this.player.y - this.cameras.main.height / 2,
-          0.1
+          this.cameraLerp
         );
       }
-
-      this.mobileControls.getState();
-      this.coinCounter.updateCount();
     }
 
     if (gameState.isGameOver && this.input.activePointer.isDown) {
@@ -166,195 +433,281 @@ export default class GameScene extends Phaser.Scene {
     }
   }
 
-  processPhysicsEvents(worldId: b2WorldIdInstance) {
-    const sensorEvents = b2World_GetSensorEvents(worldId);
-    for (const event of sensorEvents.beginEvents) {
-      const sensorShapeId = event.sensorShapeId;
-      const visitorShapeId = event.visitorShapeId;
-      const sensorUserData = b2Shape_GetUserData(
-        sensorShapeId
-      ) as ShapeUserData;
-      const visitorUserData = b2Shape_GetUserData(
-        visitorShapeId
-      ) as ShapeUserData;
-
-      let coinInstance: Coin | null = null;
-      if (
-        sensorUserData?.type === "coin" &&
-        visitorUserData?.type === "player"
-      ) {
-        coinInstance = sensorUserData.coinInstance as Coin;
-      } else if (
-        sensorUserData?.type === "player" &&
-        visitorUserData?.type === "coin"
-      ) {
-        coinInstance = visitorUserData.coinInstance as Coin;
-      }
+  /**
+   * Runs one physics step and the game logic that depends on it.
+   * Box2D only reports the events of the latest step, so they are handled
+   * after every step rather than once per frame.
+   * @param worldId The Box2D world to step
+   */
+  private fixedUpdate(worldId: b2WorldIdInstance) {
+    b2World_Step(worldId, this.timestep.stepSeconds, PHYSICS.STEP.SUB_STEPS);
 
-      if (coinInstance && !coinInstance.isCollected) {
-        coinInstance.collect();
-        gameState.incrementCoins();
-      }
+    // Stop crates from being pushed off their platforms before rendering
+    this.crates.children.each((crateChild) => {
+      (crateChild as Crate).constrainToPlatform();
+      return true; // Continue iteration
+    });
+
+    // Drive enemy patrols (enemies hold still unless the game is playing)
+    this.enemies.children.each((enemyChild) => {
+      (enemyChild as Enemy).update();
+      return true; // Continue iteration
+    });
 
-      if (
-        (sensorUserData?.type === "player" &&
-          visitorUserData?.type === "deathSensor") ||
-        (visitorUserData?.type === "player" &&
-          sensorUserData?.type === "deathSensor")
-      ) {
-        // Log position and reset player
-        console.log("Player contacted death sensor at position:", {
-          x: this.player?.x,
-          y: this.player?.y,
-        });
-
-        // Kill the player which stops movement and plays death animation
-        this.player.kill();
-
-        // The killPlayer method will now be called from the Player.kill() method
-        // so we don't need to handle respawn logic here as it should go through the game over flow
+    // Move, drop and crumble platforms; they hold still unless the game is playing
+    if (this.player) {
+      for (const platform of this.platforms) {
+        platform.update(this.timestep.stepSeconds, this.player);
       }
     }
 
-    const contactEvents = b2World_GetContactEvents(worldId);
+    // The player finds its own ground, so it is known before input is applied
+    this.player?.probeGround(this.timestep.stepSeconds);
 
-    if (this.player && this.player.bodyId) {
-      // First, check for begin/hit contact events
-      for (const event of contactEvents.beginEvents) {
-        this.processContactEvent(event, true);
-      }
-
-      for (const event of contactEvents.hitEvents) {
-        this.processContactEvent(event, true);
-      }
+    if (gameState.isPlaying) {
+      this.processPhysicsEvents(worldId);
 
-      // Then check for end contact events
-      for (const event of contactEvents.endEvents) {
-        this.processContactEvent(event, false);
+      if (this.player) {
+        this.player.update(this.playerInput.actions, this.timestep.stepSeconds);
+        this.playerInput.consumePresses();
       }
     }
   }
 
   /**
-   * Process a single contact event to determine player grounding
-   * @param event The contact event to process
-   * @param isBeginningContact Whether this is a beginning/continuing contact (true) or ending contact (false)
+   * Gets the sprites whose bodies can move, which are drawn interpolated.
    */
-  private processContactEvent(
-    event: {
-      shapeIdA: unknown;
-      shapeIdB: unknown;
-      normal?: { x: number; y: number };
-    },
-    isBeginningContact: boolean
-  ) {
-    if (!this.player || !this.player.bodyId) return;
-
-    const shapeIdA = event.shapeIdA;
-    const shapeIdB = event.shapeIdB;
-    const userDataA = b2Shape_GetUserData(shapeIdA) as ShapeUserData;
-    const userDataB = b2Shape_GetUserData(shapeIdB) as ShapeUserData;
-    const isSensorA = b2Shape_IsSensor(shapeIdA);
-    const isSensorB = b2Shape_IsSensor(shapeIdB);
-
-    // Only check solid collisions (not sensors)
-    if (!isSensorA && !isSensorB) {
-      // Check for player-platform contact
-      if (
-        (userDataA?.type === "player" && userDataB?.type === "platform") ||
-        (userDataB?.type === "player" && userDataA?.type === "platform")
-      ) {
-        // Determine if player is above the platform
-        // For Box2D, we need to look at the contact normal
-        const velocity = b2Body_GetLinearVelocity(this.player.bodyId);
-
-        // Contact normal check - in Box2D a positive y normal means contact from above
-        let isBottomContact = false;
-        if (event.normal) {
-          // Check if the player feet are contacting platform (y normal > 0)
-          const normalY = event.normal.y;
-          // More tolerant bottom contact detection
-          isBottomContact = normalY > 0.1;
-        }
+  private getMovingSprites(): PhysicsSprite[] {
+    return [
+      this.player,
+      ...(this.crates.getChildren() as Crate[]),
+      ...(this.enemies.getChildren() as Enemy[]),
+      ...this.platforms
+        .filter((platform) => platform.isMovable)
+        .map((platform) => platform.physicsSprite),
+    ];
+  }
 
-        // If this is a new contact and player is contacting platform from bottom/feet
-        if (isBeginningContact) {
-          // Beginning or continuing contact with platform
-          // More tolerant vertical velocity check (0.1 → 0.2)
-          if (isBottomContact || Math.abs(velocity.y) < 0.2) {
-            this.player.setGrounded(true);
-
-            // Apply a small additional downward impulse to stabilize on platform
-            if (this.player.bodyId) {
-              const stabilizeImpulse = new b2Vec2(0, -0.1);
-              b2Body_ApplyLinearImpulseToCenter(
-                this.player.bodyId,
-                stabilizeImpulse,
-                true
-              );
-            }
-
-            console.log(
-              "Player grounded from bottom contact or no vertical movement"
-            );
-          }
-        } else {
-          // Only set ungrounded if it was specifically this platform contact that ended
-          // and the player was previously grounded
-          if (this.player.playerState.isGrounded && isBottomContact) {
-            // Check if there are any other platform contacts still active
-            let hasOtherPlatformContacts = false;
-
-            // Look through current begin/hit events to see if there are other platforms
-            for (const otherEvent of [
-              ...(b2World_GetContactEvents(gameState.worldId).beginEvents ||
-                []),
-              ...(b2World_GetContactEvents(gameState.worldId).hitEvents || []),
-            ]) {
-              // Skip if it's the same event
-              if (otherEvent === event) continue;
-
-              const otherShapeIdA = otherEvent.shapeIdA;
-              const otherShapeIdB = otherEvent.shapeIdB;
-              const otherUserDataA = b2Shape_GetUserData(
-                otherShapeIdA
-              ) as ShapeUserData;
-              const otherUserDataB = b2Shape_GetUserData(
-                otherShapeIdB
-              ) as ShapeUserData;
-
-              // Check if this is another platform contact
-              if (
-                !b2Shape_IsSensor(otherShapeIdA) &&
-                !b2Shape_IsSensor(otherShapeIdB) &&
-                ((otherUserDataA?.type === "player" &&
-                  otherUserDataB?.type === "platform") ||
-                  (otherUserDataB?.type === "player" &&
-                    otherUserDataA?.type === "platform"))
-              ) {
-                hasOtherPlatformContacts = true;
-                break;
-              }
-            }
-
-            // Only set ungrounded if there are no other platform contacts
-            if (!hasOtherPlatformContacts) {
-              this.player.setGrounded(false);
-              console.log("Player ungrounded from end contact");
-            }
-          }
-        }
-      }
-    }
+  /**
+   * Dispatches the sensor and contact events of the latest physics step
+   * to the collision handlers declared by the entities.
+   * @param worldId The world that was stepped
+   */
+  processPhysicsEvents(worldId: b2WorldIdInstance) {
+    this.collisions.dispatch(worldId);
   }
 
+  /**
+   * Takes a life after the player died. The player respawns at the last
+   * checkpoint while lives are left, otherwise the run is over.
+   */
   killPlayer() {
     if (!gameState.isPlaying || gameState.isGameOver) return;
+    // The run was restarted from the pause menu while the death animation played
+    if (!this.player?.playerState.isDead) return;
 
     console.log("Executing killPlayer...");
-    this.player?.kill();
-    gameState.endGame();
-    this.gameOverOverlay.show();
+    const livesLeft = gameState.loseLife();
+    if (!this.fromEditor) {
+      records.recordDeath(this.getLevelKey());
+    }
+
+    if (livesLeft > 0) {
+      this.respawnPlayer();
+    } else {
+      // Save the run first, so the game over overlay shows the new records
+      this.recordRun("gameOver");
+      gameState.endGame(); // The game over overlay shows itself
+    }
+  }
+
+  /**
+   * Saves the run that just ended to the records.
+   * Editor playtests are not recorded, the level is still being built.
+   * @param outcome How the run ended
+   */
+  private recordRun(outcome: RunOutcome) {
+    if (this.fromEditor) return;
+
+    records.recordRun({
+      level: this.getLevelKey(),
+      outcome,
+      score: this.getScore().total,
+      coins: gameState.getCoins(),
+      time: gameState.getElapsedTime(),
+      deaths: gameState.getMaxLives() - gameState.getLives(),
+    });
+  }
+
+  /**
+   * Makes a checkpoint the respawn point. Coins collected so far are banked,
+   * so losing a life no longer takes them away.
+   * @param x Respawn x position in pixels
+   * @param y Respawn y position in pixels
+   */
+  reachCheckpoint(x: number, y: number) {
+    console.log("Player reached a checkpoint", { x, y });
+    this.player.setRespawnPoint(x, y);
+    gameState.reachCheckpoint();
+
+    this.coins.children.each((coinChild) => {
+      const coin = coinChild as Coin;
+      if (coin.isCollected) {
+        coin.isBanked = true;
+      }
+      return true; // Continue iteration
+    });
+  }
+
+  /**
+   * Puts the player back at the respawn point after losing a life.
+   * The run goes on; coins lost with the life can be collected again.
+   */
+  respawnPlayer() {
+    console.log("Respawning player...");
+
+    if (gameState.rollbackCoins) {
+      this.coins.children.each((coinChild) => {
+        const coin = coinChild as Coin;
+        if (coin.isCollected && !coin.isBanked) {
+          coin.reset();
+        }
+        return true; // Continue iteration
+      });
+    }
+
+    // Put moved, fallen and crumbled platforms back, so the way on is open
+    this.platforms.forEach((platform) => platform.reset());
+    this.interpolator.reset();
+
+    this.player.reset();
+    this.cameras.main.centerOn(this.player.x, this.player.y);
+  }
+
+  /**
+   * Ends the run successfully once the player reaches the finish.
+   * Activates the finish flag; the level complete overlay shows itself.
+   */
+  completeLevel() {
+    if (!gameState.isPlaying || this.player.playerState.isDead) return;
+
+    console.log("Player reached the finish");
+    this.finish.activate();
+    this.player.halt();
+    gameState.completeLevel();
+    this.recordRun("complete");
+  }
+
+  /**
+   * Moves on to the next level. The next seed follows from the current one,
+   * so a sequence of levels is reproducible from its first seed. After a
+   * hand-authored level a new random seed is generated.
+   */
+  nextLevel() {
+    if (!gameState.restartGame()) return;
+    this.loadLevel(this.seed === null ? createSeed() : (this.seed + 1) >>> 0);
+  }
+
+  /**
+   * Replaces the current level with a generated or hand-authored one.
+   * Destroys the current Box2D world and restarts the scene so every entity
+   * is rebuilt from scratch. Only allowed while the game is READY.
+   * @param level The seed of a generated level, or the level data to load
+   */
+  loadLevel(level: number | LevelLayout) {
+    const { worldId } = gameState;
+    if (!worldId || !gameState.isReady) return;
+
+    console.log("Loading a new level...");
+    ClearWorldSprites(worldId);
+    b2DestroyWorld(worldId);
+    gameState.worldId = null;
+
+    this.scene.restart(typeof level === "number" ? { seed: level } : { level });
+  }
+
+  /**
+   * Opens the current level in the level editor.
+   * Destroys the Box2D world and resets the game state, so the next level
+   * starts from a clean world. Allowed in any state.
+   */
+  openEditor() {
+    const { worldId } = gameState;
+    if (worldId) {
+      ClearWorldSprites(worldId);
+      b2DestroyWorld(worldId);
+    }
+    resetGameState();
+
+    this.scene.start(SCENES.EDITOR, { level: this.layout });
+  }
+
+  /**
+   * Opens the settings over this scene, which stands still until they are
+   * closed. Allowed from the start screen and the pause menu.
+   */
+  openSettings() {
+    if (!gameState.isReady && !gameState.isPaused) return;
+
+    this.scene.launch(SCENES.SETTINGS);
+    this.scene.pause();
+  }
+
+  /**
+   * Pauses or resumes the run.
+   */
+  togglePause() {
+    if (gameState.isPlaying) {
+      this.pauseGame();
+    } else if (gameState.isPaused) {
+      this.resumeGame();
+    }
+  }
+
+  /**
+   * Pauses the run and opens the pause menu. Only allowed while playing.
+   */
+  pauseGame() {
+    if (!gameState.pauseGame()) return;
+
+    this.setFrozen(true);
+    this.pauseMenu.show();
+  }
+
+  /**
+   * Closes the pause menu and carries on with the run.
+   */
+  resumeGame() {
+    if (!gameState.resumeGame()) return;
+
+    this.setFrozen(false);
+    this.pauseMenu.hide();
+    // Buttons pressed in the menu must not make the duck jump or dash
+    this.playerInput.consumePresses();
+  }
+
+  /**
+   * Stops or restarts everything that moves on its own. The physics world is
+   * not stepped while the game is paused, see update().
+   * @param frozen Whether the scene should stand still
+   */
+  private setFrozen(frozen: boolean) {
+    this.time.paused = frozen;
+    if (frozen) {
+      this.anims.pauseAll();
+      this.tweens.pauseAll();
+    } else {
+      this.anims.resumeAll();
+      this.tweens.resumeAll();
+    }
+  }
+
+  /**
+   * Abandons the current run and starts a new one right away.
+   */
+  restartRun() {
+    this.restart();
+    this.startGame();
   }
 
   startGame() {
@@ -366,6 +719,8 @@ export default class GameScene extends Phaser.Scene {
       }
 
       gameState.startGame();
+      // Presses made on the start screen must not jump or dash on the first step
+      this.playerInput.consumePresses();
       this.startScreen.hide();
       this.gameOverOverlay.hide();
     }
@@ -374,10 +729,16 @@ export default class GameScene extends Phaser.Scene {
   /**
    * Restarts the game logic without reloading the scene or destroying the Box2D world.
    * Resets player position, state, collected coins, and UI elements.
+   * Also ends a paused run, going back to the start screen.
    */
   restart() {
     console.log("Restarting game logic (persistent world)...");
+    const wasPaused = gameState.isPaused;
     gameState.restartGame(); // Reset game state to READY
+    if (wasPaused) {
+      this.setFrozen(false);
+      this.pauseMenu.hide();
+    }
 
     // Reset any collected coins
     this.coins.children.each((coinChild) => {
@@ -388,8 +749,36 @@ export default class GameScene extends Phaser.Scene {
       return true; // Continue iteration
     });
 
+    // Put crates back where they spawned
+    this.crates.children.each((crateChild) => {
+      (crateChild as Crate).reset();
+      return true; // Continue iteration
+    });
+
+    // Respawn all enemies
+    this.enemies.children.each((enemyChild) => {
+      (enemyChild as Enemy).reset();
+      return true; // Continue iteration
+    });
+
+    // Return the finish to its idle frame
+    this.finish.reset();
+
+    // Lower the checkpoint flags, the next run starts from the spawn again
+    this.checkpoints.forEach((checkpoint) => checkpoint.reset());
+
+    // Put moved, fallen and crumbled platforms back
+    this.platforms.forEach((platform) => platform.reset());
+
+    // Bodies were moved back to their spawn points, don't draw them sliding there
+    this.interpolator.reset();
+
     // Reset player
     if (this.player) {
+      this.player.setRespawnPoint(
+        this.player.startPosition.x,
+        this.player.startPosition.y
+      );
       this.player.reset();
 
       // Update camera position
@@ -398,8 +787,8 @@ export default class GameScene extends Phaser.Scene {
 
     // Update UI
     this.gameOverOverlay.hide();
+    this.levelCompleteOverlay.hide();
     this.startScreen.show(); // Show start screen to initiate playing again
-    this.coinCounter.updateCount(); // Reflects the reset coin count (0)
 
     console.log("Game logic restart complete.");
   }
@@ -2,8 +2,9 @@
  * @file PreloaderScene.ts
  * @description Handles loading of all game assets (texture atlas) before the game starts.
  * Displays a loading progress bar and percentage text.
- * Once loading is complete, it defines all necessary sprite animations
- * and then transitions to the GameScene.
+ * Once loading is complete, it defines all necessary sprite animations,
+ * draws the textures that have no atlas art and then transitions to the GameScene, or to the EditorScene when the page
+ * was opened with `?editor`.
  */
 import * as Phaser from "phaser";
 
@@ -51,9 +52,15 @@ export default class PreloaderScene extends Phaser.Scene {
   create() {
     // Define animations
     this.createAnimations();
+    this.createTileTextures();
+    this.createCheckpointTextures();
+    this.createPauseButtonTexture();
 
-    // Start the game scene
-    this.scene.start(SCENES.GAME);
+    // Start the game scene, or the level editor when asked for in the URL
+    const openEditor = new URLSearchParams(window.location.search).has(
+      "editor"
+    );
+    this.scene.start(openEditor ? SCENES.EDITOR : SCENES.GAME);
   }
 
   createAnimations() {
@@ -171,4 +178,100 @@ export default class PreloaderScene extends Phaser.Scene {
       repeat: -1,
     });
   }
+
+  /**
+   * Draws the spring, spike and conveyor textures, which have no frames in
+   * the atlas. Ice is a plain rectangle and needs no texture.
+   */
+  createTileTextures() {
+    const { SPRING, SPIKES, CONVEYOR } = ASSETS.TILES;
+    const graphics = this.make.graphics({}, false);
+
+    // Spring: base plate, zigzag coil and pad
+    graphics.fillStyle(SPRING.COIL_COLOR, 1);
+    graphics.fillRect(2, SPRING.HEIGHT - 3, SPRING.WIDTH - 4, 3);
+    graphics.lineStyle(2, SPRING.COIL_COLOR, 1);
+    graphics.beginPath();
+    graphics.moveTo(SPRING.WIDTH / 2, SPRING.HEIGHT - 3);
+    for (let y = SPRING.HEIGHT - 5, side = -1; y > 4; y -= 2, side = -side) {
+      graphics.lineTo(SPRING.WIDTH / 2 + side * 6, y);
+    }
+    graphics.lineTo(SPRING.WIDTH / 2, 4);
+    graphics.strokePath();
+    graphics.fillStyle(SPRING.COLOR, 1);
+    graphics.fillRect(0, 0, SPRING.WIDTH, 4);
+    graphics.generateTexture(SPRING.KEY, SPRING.WIDTH, SPRING.HEIGHT);
+
+    // Spike: a single triangle, repeated along a strip
+    graphics.clear();
+    graphics.fillStyle(SPIKES.COLOR, 1);
+    graphics.fillTriangle(
+      0,
+      SPIKES.HEIGHT,
+      SPIKES.WIDTH / 2,
+      0,
+      SPIKES.WIDTH,
+      SPIKES.HEIGHT
+    );
+    graphics.generateTexture(SPIKES.KEY, SPIKES.WIDTH, SPIKES.HEIGHT);
+
+    // Conveyor: a belt segment with one stripe, repeated and scrolled
+    graphics.clear();
+    graphics.fillStyle(CONVEYOR.COLOR, 1);
+    graphics.fillRect(0, 0, CONVEYOR.WIDTH, CONVEYOR.HEIGHT);
+    graphics.fillStyle(CONVEYOR.STRIPE_COLOR, 1);
+    graphics.fillRect(CONVEYOR.WIDTH / 2 - 2, 1, 4, CONVEYOR.HEIGHT - 2);
+    graphics.generateTexture(CONVEYOR.KEY, CONVEYOR.WIDTH, CONVEYOR.HEIGHT);
+
+    graphics.destroy();
+  }
+
+  /**
+   * Draws the lowered and raised checkpoint flags: a pole with a pennant,
+   * grey until the player reaches it and green afterwards.
+   */
+  createCheckpointTextures() {
+    const { WIDTH, HEIGHT, POLE_COLOR } = ASSETS.CHECKPOINT;
+    const graphics = this.make.graphics({}, false);
+    const flags = [
+      {
+        key: ASSETS.CHECKPOINT.INACTIVE_KEY,
+        color: ASSETS.CHECKPOINT.INACTIVE_COLOR,
+      },
+      {
+        key: ASSETS.CHECKPOINT.ACTIVE_KEY,
+        color: ASSETS.CHECKPOINT.ACTIVE_COLOR,
+      },
+    ];
+
+    for (const { key, color } of flags) {
+      graphics.clear();
+      graphics.fillStyle(POLE_COLOR, 1);
+      graphics.fillRect(0, 0, 3, HEIGHT);
+      graphics.fillStyle(color, 1);
+      graphics.fillTriangle(3, 2, WIDTH, 9, 3, 16);
+      graphics.generateTexture(key, WIDTH, HEIGHT);
+    }
+
+    graphics.destroy();
+  }
+
+  /**
+   * Draws the on-screen pause button: two bars on a rounded square.
+   */
+  createPauseButtonTexture() {
+    const { KEY, SIZE, COLOR, ICON_COLOR } = ASSETS.PAUSE_BUTTON;
+    const graphics = this.make.graphics({}, false);
+
+    graphics.fillStyle(COLOR, 1);
+    graphics.fillRoundedRect(0, 0, SIZE, SIZE, SIZE / 5);
+    graphics.fillStyle(ICON_COLOR, 1);
+    const barWidth = SIZE / 6;
+    const barHeight = SIZE / 2;
+    graphics.fillRect(SIZE * 0.3, SIZE / 4, barWidth, barHeight);
+    graphics.fillRect(SIZE * 0.7 - barWidth, SIZE / 4, barWidth, barHeight);
+    graphics.generateTexture(KEY, SIZE, SIZE);
+
+    graphics.destroy();
+  }
 }
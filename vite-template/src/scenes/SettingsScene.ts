@@ -0,0 +1,343 @@
+/**
+ * @file SettingsScene.ts
+ * @description Lets the player change the settings: volumes, screen shake,
+ * reduced motion, the debug overlay, the touch buttons and the key bindings.
+ * It runs on top of the paused GameScene and every change is saved and
+ * applied right away. Clicking the left or right half of a value lowers or
+ * raises it, clicking a key binding waits for the new key. Escape goes back.
+ */
+import * as Phaser from "phaser";
+
+import { SCENES, SETTINGS, UI } from "@constants";
+
+import { eventBus } from "../lib/eventBus";
+import { InputAction, Settings, getKeyName, settings } from "../lib/settings";
+
+/**
+ * A setting shown in the left column
+ */
+interface OptionRow {
+  label: string;
+  /** Text of the current value */
+  format: (current: Readonly<Settings>) => string;
+  /**
+   * Changes the value
+   * @param step -1 to lower it, 1 to raise it
+   */
+  change: (current: Readonly<Settings>, step: number) => Partial<Settings>;
+}
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  LEFT: "Move left",
+  RIGHT: "Move right",
+  JUMP: "Jump",
+  DOWN: "Drop down",
+  PAUSE: "Pause",
+  DASH: "Dash",
+};
+
+const HINT_TEXT =
+  "Click a value to change it, click a key to rebind it.   Esc: back";
+
+/**
+ * Moves a value by one step and keeps it in range.
+ * @param value The current value
+ * @param step The signed change
+ * @param min Smallest allowed value
+ * @param max Largest allowed value
+ */
+function stepValue(value: number, step: number, min: number, max: number) {
+  // Round away floating point drift, so 0.1 steps land on tenths
+  return Phaser.Math.Clamp(Math.round((value + step) * 100) / 100, min, max);
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatSwitch(on: boolean): string {
+  return on ? "On" : "Off";
+}
+
+const volumeRow = (
+  label: string,
+  key: "masterVolume" | "sfxVolume" | "musicVolume"
+): OptionRow => ({
+  label,
+  format: (current) => formatPercent(current[key]),
+  change: (current, step) => ({
+    [key]: stepValue(current[key], step * SETTINGS.VOLUME_STEP, 0, 1),
+  }),
+});
+
+const switchRow = (
+  label: string,
+  key: "screenShake" | "reducedMotion" | "debugOverlay"
+): OptionRow => ({
+  label,
+  format: (current) => formatSwitch(current[key]),
+  change: (current) => ({ [key]: !current[key] }),
+});
+
+const marginRow = (
+  label: string,
+  key: "mobileMarginX" | "mobileMarginY"
+): OptionRow => ({
+  label,
+  format: (current) => `${current[key]} px`,
+  change: (current, step) => {
+    const { MIN, MAX, STEP } = SETTINGS.MOBILE_MARGIN;
+    return { [key]: stepValue(current[key], step * STEP, MIN, MAX) };
+  },
+});
+
+const OPTION_ROWS: OptionRow[] = [
+  volumeRow("Master volume", "masterVolume"),
+  volumeRow("Effects volume", "sfxVolume"),
+  volumeRow("Music volume", "musicVolume"),
+  switchRow("Screen shake", "screenShake"),
+  switchRow("Reduced motion", "reducedMotion"),
+  switchRow("Debug overlay", "debugOverlay"),
+  {
+    label: "Touch buttons",
+    format: (current) => formatPercent(current.mobileScale),
+    change: (current, step) => {
+      const { MIN, MAX, STEP } = SETTINGS.MOBILE_SCALE;
+      return {
+        mobileScale: stepValue(current.mobileScale, step * STEP, MIN, MAX),
+      };
+    },
+  },
+  marginRow("Touch side margin", "mobileMarginX"),
+  marginRow("Touch bottom margin", "mobileMarginY"),
+  {
+    label: "Touch layout",
+    format: (current) =>
+      current.mobileLayout === "jumpRight" ? "Jump right" : "Jump left",
+    change: (current) => ({
+      mobileLayout:
+        current.mobileLayout === "jumpRight" ? "jumpLeft" : "jumpRight",
+    }),
+  },
+];
+
+export default class SettingsScene extends Phaser.Scene {
+  private optionTexts: Phaser.GameObjects.Text[] = [];
+  private keyTexts = new Map<InputAction, Phaser.GameObjects.Text>();
+  /** Action waiting for its new key, if any */
+  private rebinding: InputAction | null = null;
+
+  constructor() {
+    super({ key: SCENES.SETTINGS });
+  }
+
+  /**
+   * Builds the settings screen over the paused game.
+   */
+  create() {
+    this.optionTexts = [];
+    this.keyTexts.clear();
+    this.rebinding = null;
+
+    const config = UI.SETTINGS;
+    const camera = this.cameras.main;
+    this.add
+      .rectangle(
+        0,
+        0,
+        camera.width,
+        camera.height,
+        config.BACKGROUND_COLOR,
+        config.BACKGROUND_ALPHA
+      )
+      .setOrigin(0)
+      // Keep clicks away from the game below
+      .setInteractive();
+
+    this.add
+      .text(camera.centerX, config.TOP - 90, "Settings", {
+        fontSize: config.TITLE_FONT_SIZE,
+        color: config.COLOR,
+      })
+      .setOrigin(0.5);
+    this.add
+      .text(camera.centerX, config.TOP - 45, HINT_TEXT, {
+        fontSize: UI.LEVEL_FILE_TEXT.FONT_SIZE,
+        color: config.COLOR,
+      })
+      .setOrigin(0.5);
+
+    this.createOptionRows(camera.centerX - config.COLUMN_OFFSET_X);
+    this.createKeyRows(camera.centerX + config.COLUMN_OFFSET_X);
+
+    const buttonY = config.TOP + (OPTION_ROWS.length + 1) * config.ROW_HEIGHT;
+    this.createButton(
+      camera.centerX - config.COLUMN_OFFSET_X,
+      buttonY,
+      "Reset to defaults",
+      () => {
+        this.rebinding = null;
+        settings.reset();
+      }
+    );
+    this.createButton(
+      camera.centerX + config.COLUMN_OFFSET_X,
+      buttonY,
+      "Back",
+      () => this.close()
+    );
+
+    this.input.keyboard?.on("keydown", (event: KeyboardEvent) =>
+      this.handleKey(event)
+    );
+    eventBus.subscribe(this, "settingsChanged", () => this.refresh());
+
+    this.scene.bringToTop();
+    this.refresh();
+  }
+
+  /**
+   * Creates a label and a clickable value for every option.
+   * @param columnX Center of the column in pixels
+   */
+  private createOptionRows(columnX: number) {
+    OPTION_ROWS.forEach((row, index) => {
+      const y = UI.SETTINGS.TOP + index * UI.SETTINGS.ROW_HEIGHT;
+      this.createLabel(columnX, y, row.label);
+
+      const value = this.createValue(columnX, y);
+      value.on("pointerdown", (pointer: Phaser.Input.Pointer) => {
+        const step = pointer.x < value.x ? -1 : 1;
+        settings.update(row.change(settings.get(), step));
+      });
+      this.optionTexts.push(value);
+    });
+  }
+
+  /**
+   * Creates a label and a clickable key list for every action.
+   * @param columnX Center of the column in pixels
+   */
+  private createKeyRows(columnX: number) {
+    const actions = Object.keys(ACTION_LABELS) as InputAction[];
+    actions.forEach((action, index) => {
+      const y = UI.SETTINGS.TOP + index * UI.SETTINGS.ROW_HEIGHT;
+      this.createLabel(columnX, y, ACTION_LABELS[action]);
+
+      const value = this.createValue(columnX, y);
+      value.on("pointerdown", () => {
+        this.rebinding = action;
+        this.refresh();
+      });
+      this.keyTexts.set(action, value);
+    });
+  }
+
+  private createLabel(columnX: number, y: number, label: string) {
+    return this.add
+      .text(columnX - UI.SETTINGS.VALUE_OFFSET_X, y, label, {
+        fontSize: UI.SETTINGS.FONT_SIZE,
+        color: UI.SETTINGS.COLOR,
+      })
+      .setOrigin(0, 0.5);
+  }
+
+  private createValue(columnX: number, y: number) {
+    const value = this.add
+      .text(columnX + UI.SETTINGS.VALUE_OFFSET_X, y, "", {
+        fontSize: UI.SETTINGS.FONT_SIZE,
+        color: UI.SETTINGS.COLOR,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ cursor: "pointer" });
+
+    value.on("pointerover", () => value.setColor(UI.SETTINGS.HOVER_COLOR));
+    value.on("pointerout", () => this.refresh());
+    return value;
+  }
+
+  private createButton(
+    x: number,
+    y: number,
+    label: string,
+    action: () => void
+  ) {
+    const button = this.add
+      .text(x, y, label, {
+        fontSize: UI.SETTINGS.FONT_SIZE,
+        color: UI.SETTINGS.COLOR,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ cursor: "pointer" });
+
+    button.on("pointerover", () => button.setColor(UI.SETTINGS.HOVER_COLOR));
+    button.on("pointerout", () => button.setColor(UI.SETTINGS.COLOR));
+    button.on("pointerdown", action);
+  }
+
+  /**
+   * Shows the current settings in the value texts.
+   */
+  private refresh() {
+    const current = settings.get();
+
+    OPTION_ROWS.forEach((row, index) =>
+      this.optionTexts[index]
+        ?.setText(`<  ${row.format(current)}  >`)
+        .setColor(UI.SETTINGS.COLOR)
+    );
+
+    this.keyTexts.forEach((text, action) => {
+      if (action === this.rebinding) {
+        text.setText("Press a key...").setColor(UI.SETTINGS.HOVER_COLOR);
+      } else {
+        const names = current.keys[action];
+        text
+          .setText(names.length > 0 ? names.join(" / ") : "None")
+          .setColor(UI.SETTINGS.COLOR);
+      }
+    });
+  }
+
+  /**
+   * Binds the pressed key to the action waiting for one, or goes back on
+   * Escape. Escape cancels a rebinding instead.
+   * @param event The keyboard event
+   */
+  private handleKey(event: KeyboardEvent) {
+    const isEscape = event.keyCode === Phaser.Input.Keyboard.KeyCodes.ESC;
+
+    if (!this.rebinding) {
+      if (isEscape) this.close();
+      return;
+    }
+
+    const action = this.rebinding;
+    const name = isEscape ? null : getKeyName(event.keyCode);
+    this.rebinding = null;
+    if (!name) {
+      this.refresh();
+      return;
+    }
+
+    // A key drives one action only, take it away from the others. An action
+    // left without keys takes over the old keys of the rebound one, since
+    // saved actions without keys go back to their defaults
+    const keys = { ...settings.get().keys };
+    const oldKeys = keys[action].filter((key) => key !== name);
+    for (const other of Object.keys(keys) as InputAction[]) {
+      const remaining = keys[other].filter((key) => key !== name);
+      keys[other] = remaining.length > 0 ? remaining : oldKeys;
+    }
+    keys[action] = [name];
+    settings.update({ keys });
+  }
+
+  /**
+   * Closes the settings and goes back to the game.
+   */
+  private close() {
+    this.scene.stop();
+    this.scene.resume(SCENES.GAME);
+  }
+}
@@ -1,12 +1,15 @@
 /**
  * @file CoinCounter.ts
  * @description Manages the display of the player's collected coin count.
- * Creates and updates a text object in the top-right corner of the screen.
+ * Creates a text object in the top-right corner of the screen and updates it
+ * when coins are collected, lost with a life or the run is reset.
  */
 import * as Phaser from "phaser";
 
 import { UI } from "@constants";
-import { gameState } from "@gameState";
+import { GameStates, gameState } from "@gameState";
+
+import { eventBus } from "../lib/eventBus";
 
 export default class CoinCounter {
   scene: Phaser.Scene;
@@ -15,6 +18,19 @@ export default class CoinCounter {
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
     this.createText();
+
+    eventBus.subscribe(scene, "coinCollected", ({ total }) =>
+      this.setCount(total)
+    );
+    eventBus.subscribe(scene, "coinsRolledBack", ({ total }) =>
+      this.setCount(total)
+    );
+    // A new run starts with no coins
+    eventBus.subscribe(scene, "stateChanged", ({ to }) => {
+      if (to === GameStates.READY) {
+        this.setCount(gameState.getCoins());
+      }
+    });
   }
 
   createText() {
@@ -34,10 +50,9 @@ export default class CoinCounter {
     this.text.setScrollFactor(0);
   }
 
-  updateCount() {
+  setCount(coins: number) {
     if (this.text) {
-      const currentCoins = gameState.getCoins();
-      this.text.setText(`Coins: ${currentCoins}`);
+      this.text.setText(`Coins: ${coins}`);
     }
   }
 
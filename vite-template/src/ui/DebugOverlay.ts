@@ -0,0 +1,70 @@
+/**
+ * @file DebugOverlay.ts
+ * @description Shows frame rate, physics and player details in the top-left
+ * corner, below the pause button. Turned on and off in the settings.
+ */
+import * as Phaser from "phaser";
+
+import { PHYSICS, UI } from "@constants";
+import Player from "@entities/Player";
+import { b2Body_GetLinearVelocity } from "@PhaserBox2D";
+
+export default class DebugOverlay {
+  scene: Phaser.Scene;
+  text: Phaser.GameObjects.Text;
+
+  /**
+   * @param scene The scene to show the overlay in
+   * @param visible Whether the overlay starts out shown
+   */
+  constructor(scene: Phaser.Scene, visible: boolean) {
+    this.scene = scene;
+
+    const config = UI.DEBUG_OVERLAY;
+    this.text = this.scene.add
+      .text(config.OFFSET.x, config.OFFSET.y, "", {
+        fontSize: config.FONT_SIZE,
+        color: config.COLOR,
+        backgroundColor: config.BACKGROUND_COLOR,
+        padding: { x: config.PADDING, y: config.PADDING },
+      })
+      .setScrollFactor(0)
+      .setDepth(1001)
+      .setVisible(visible);
+  }
+
+  setVisible(visible: boolean) {
+    this.text.setVisible(visible);
+  }
+
+  /**
+   * Refreshes the details. Called every frame; does nothing while hidden.
+   * @param player The player to describe
+   * @param bodyCount Number of physics bodies drawn by sprites
+   */
+  update(player: Player, bodyCount: number) {
+    if (!this.text.visible) return;
+
+    const lines = [
+      `FPS: ${Math.round(this.scene.game.loop.actualFps)}`,
+      `Bodies: ${bodyCount}`,
+      `Player: ${Math.round(player.x)}, ${Math.round(player.y)}`,
+      `State: ${player.stateMachine.state}${
+        player.playerState.isGrounded ? " (grounded)" : ""
+      }`,
+    ];
+    if (player.bodyId) {
+      // Box2D works in meters with y up, show pixels/second with y down
+      const velocity = b2Body_GetLinearVelocity(player.bodyId);
+      const vx = Math.round(velocity.x * PHYSICS.SCALE);
+      const vy = Math.round(-velocity.y * PHYSICS.SCALE);
+      lines.push(`Velocity: ${vx}, ${vy}`);
+    }
+
+    this.text.setText(lines);
+  }
+
+  destroy() {
+    this.text.destroy();
+  }
+}
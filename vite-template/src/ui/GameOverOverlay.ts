@@ -2,19 +2,35 @@
  * @file GameOverOverlay.ts
  * @description Manages the game over overlay screen.
  * This screen is displayed when the player dies or completes the level,
- * prompting them to restart.
+ * prompting them to restart. The results breakdown of the run is shown above
+ * it, and the level seed below so testers can report it, along with the saved
+ * records of the level.
  */
 import * as Phaser from "phaser";
 
-import { ASSETS } from "@constants";
+import { ASSETS, UI } from "@constants";
+import { GameStates } from "@gameState";
 import GameScene from "@scenes/GameScene";
+import RecordsText from "@ui/RecordsText";
+import ResultsBreakdown from "@ui/ResultsBreakdown";
+
+import { eventBus } from "../lib/eventBus";
 
 export default class GameOverOverlay {
   scene: GameScene;
   overlay: Phaser.GameObjects.Image | null = null;
+  seedText: Phaser.GameObjects.Text | null = null;
+  recordsText: RecordsText | null = null;
+  resultsBreakdown: ResultsBreakdown | null = null;
 
   constructor(scene: GameScene) {
     this.scene = scene;
+
+    eventBus.subscribe(scene, "stateChanged", ({ to }) => {
+      if (to === GameStates.GAME_OVER) {
+        this.show();
+      }
+    });
   }
 
   show() {
@@ -33,14 +49,35 @@ export default class GameOverOverlay {
       this.overlay.on("pointerdown", () => {
         this.scene.restart();
       });
+
+      this.seedText = this.scene.add
+        .text(
+          this.scene.cameras.main.centerX,
+          this.scene.cameras.main.centerY + UI.SEED_TEXT.OFFSET_Y,
+          "",
+          { fontSize: UI.SEED_TEXT.FONT_SIZE, color: UI.SEED_TEXT.COLOR }
+        )
+        .setOrigin(0.5)
+        .setScrollFactor(0);
+
+      this.recordsText = new RecordsText(this.scene);
+      this.resultsBreakdown = new ResultsBreakdown(this.scene);
     }
     this.overlay.setVisible(true);
+    this.seedText?.setText(this.scene.getLevelLabel()).setVisible(true);
+    this.recordsText?.show(this.scene.getLevelKey());
+    this.resultsBreakdown?.show(this.scene.getScore());
   }
 
   hide() {
     if (this.overlay) {
       this.overlay.setVisible(false);
     }
+    if (this.seedText) {
+      this.seedText.setVisible(false);
+    }
+    this.recordsText?.hide();
+    this.resultsBreakdown?.hide();
   }
 
   destroy() {
@@ -48,5 +85,13 @@ export default class GameOverOverlay {
       this.overlay.destroy();
       this.overlay = null;
     }
+    if (this.seedText) {
+      this.seedText.destroy();
+      this.seedText = null;
+    }
+    this.recordsText?.destroy();
+    this.recordsText = null;
+    this.resultsBreakdown?.destroy();
+    this.resultsBreakdown = null;
   }
 }
@@ -3,16 +3,30 @@
  * @description Manages the initial start screen overlay.
  * This screen is displayed when the game first loads and allows the player
  * to initiate the game start or restart after a game over.
+ * It also shows the level seed, which can be clicked to play a different seed,
+ * and links to export the level as JSON, open it in the editor, load a level
+ * file or open the settings.
+ * Below them are the saved records of the level.
  */
 import * as Phaser from "phaser";
 
-import { ASSETS } from "@constants";
+import { ASSETS, UI } from "@constants";
 import { gameState } from "@gameState";
 import GameScene from "@scenes/GameScene";
+import RecordsText from "@ui/RecordsText";
+
+import { openLevelFile } from "../lib/levelFile";
+import { parseSeed } from "../lib/random";
 
 export default class GameStartScreen {
   scene: GameScene;
   overlay: Phaser.GameObjects.Image | null = null;
+  seedText: Phaser.GameObjects.Text | null = null;
+  exportText: Phaser.GameObjects.Text | null = null;
+  editText: Phaser.GameObjects.Text | null = null;
+  loadText: Phaser.GameObjects.Text | null = null;
+  settingsText: Phaser.GameObjects.Text | null = null;
+  recordsText: RecordsText | null = null;
 
   constructor(scene: GameScene) {
     this.scene = scene;
@@ -43,18 +57,101 @@ export default class GameStartScreen {
         }
       });
     }
+
+    this.seedText = this.scene.add
+      .text(
+        this.scene.cameras.main.centerX,
+        this.scene.cameras.main.centerY + UI.SEED_TEXT.OFFSET_Y,
+        `${this.scene.getLevelLabel()} (click to change)`,
+        { fontSize: UI.SEED_TEXT.FONT_SIZE, color: UI.SEED_TEXT.COLOR }
+      )
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setInteractive({ cursor: "pointer" })
+      .setVisible(false);
+
+    this.seedText.on("pointerdown", () => this.promptForSeed());
+
+    const spacing = UI.LEVEL_FILE_TEXT.OFFSET_X;
+    this.exportText = this.createLink(-1.5 * spacing, "Export level");
+    this.exportText.on("pointerdown", () => this.scene.exportLevel());
+
+    this.editText = this.createLink(-0.5 * spacing, "Edit level");
+    this.editText.on("pointerdown", () => this.scene.openEditor());
+
+    this.loadText = this.createLink(0.5 * spacing, "Load level");
+    this.loadText.on("pointerdown", () =>
+      openLevelFile((layout) => this.scene.loadLevel(layout))
+    );
+
+    this.settingsText = this.createLink(1.5 * spacing, "Settings");
+    this.settingsText.on("pointerdown", () => this.scene.openSettings());
+
+    this.recordsText = new RecordsText(this.scene);
+  }
+
+  /**
+   * Creates a clickable text link below the seed text.
+   * @param offsetX Horizontal offset from the screen center in pixels
+   * @param label The link text
+   */
+  private createLink(offsetX: number, label: string): Phaser.GameObjects.Text {
+    return this.scene.add
+      .text(
+        this.scene.cameras.main.centerX + offsetX,
+        this.scene.cameras.main.centerY + UI.LEVEL_FILE_TEXT.OFFSET_Y,
+        label,
+        {
+          fontSize: UI.LEVEL_FILE_TEXT.FONT_SIZE,
+          color: UI.LEVEL_FILE_TEXT.COLOR,
+        }
+      )
+      .setOrigin(0.5)
+      .setScrollFactor(0)
+      .setInteractive({ cursor: "pointer" })
+      .setVisible(false);
+  }
+
+  /**
+   * Asks the player for a seed and loads that level if it differs.
+   */
+  promptForSeed() {
+    const input = window.prompt(
+      "Enter a level seed",
+      this.scene.seed === null ? "" : String(this.scene.seed)
+    );
+    const seed = parseSeed(input);
+    if (seed !== null && seed !== this.scene.seed) {
+      this.scene.loadLevel(seed);
+    }
   }
 
   show() {
     if (this.overlay) {
       this.overlay.setVisible(true);
     }
+    if (this.seedText) {
+      this.seedText.setVisible(true);
+    }
+    this.exportText?.setVisible(true);
+    this.editText?.setVisible(true);
+    this.loadText?.setVisible(true);
+    this.settingsText?.setVisible(true);
+    this.recordsText?.show(this.scene.getLevelKey());
   }
 
   hide() {
     if (this.overlay) {
       this.overlay.setVisible(false);
     }
+    if (this.seedText) {
+      this.seedText.setVisible(false);
+    }
+    this.exportText?.setVisible(false);
+    this.editText?.setVisible(false);
+    this.loadText?.setVisible(false);
+    this.settingsText?.setVisible(false);
+    this.recordsText?.hide();
   }
 
   destroy() {
@@ -62,5 +159,19 @@ export default class GameStartScreen {
       this.overlay.destroy();
       this.overlay = null;
     }
+    if (this.seedText) {
+      this.seedText.destroy();
+      this.seedText = null;
+    }
+    this.exportText?.destroy();
+    this.exportText = null;
+    this.editText?.destroy();
+    this.editText = null;
+    this.loadText?.destroy();
+    this.loadText = null;
+    this.settingsText?.destroy();
+    this.settingsText = null;
+    this.recordsText?.destroy();
+    this.recordsText = null;
   }
 }
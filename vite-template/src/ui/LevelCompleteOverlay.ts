@@ -0,0 +1,127 @@
+/**
+ * @file LevelCompleteOverlay.ts
+ * @description Manages the level complete overlay screen.
+ * This screen is displayed when the player reaches the finish. It shows the
+ * results breakdown of the run, and offers "retry" and "next level" actions.
+ */
+import * as Phaser from "phaser";
+
+import { UI } from "@constants";
+import { gameState } from "@gameState";
+import GameScene from "@scenes/GameScene";
+import { formatResults } from "@ui/ResultsBreakdown";
+
+import { eventBus } from "../lib/eventBus";
+
+export default class LevelCompleteOverlay {
+  scene: GameScene;
+  container: Phaser.GameObjects.Container | null = null;
+  statsText: Phaser.GameObjects.Text | null = null;
+
+  constructor(scene: GameScene) {
+    this.scene = scene;
+
+    // Let the finish activation animation play before showing the results
+    eventBus.subscribe(scene, "levelCompleted", () => {
+      scene.time.delayedCall(UI.LEVEL_COMPLETE.SHOW_DELAY, () => {
+        if (gameState.isLevelComplete) {
+          this.show();
+        }
+      });
+    });
+  }
+
+  createOverlay() {
+    if (this.container) return;
+
+    const config = UI.LEVEL_COMPLETE;
+    const textStyle = {
+      fontSize: config.RESULTS_FONT_SIZE,
+      color: config.COLOR,
+    };
+
+    const background = this.scene.add.rectangle(
+      0,
+      0,
+      config.WIDTH,
+      config.HEIGHT,
+      config.BACKGROUND_COLOR,
+      config.BACKGROUND_ALPHA
+    );
+
+    const title = this.scene.add
+      .text(0, -config.HEIGHT / 2 + 40, "Level Complete!", {
+        fontSize: config.TITLE_FONT_SIZE,
+        color: config.COLOR,
+      })
+      .setOrigin(0.5);
+
+    this.statsText = this.scene.add
+      .text(0, -10, "", { ...textStyle, align: "center" })
+      .setOrigin(0.5);
+
+    const retryButton = this.createButton(-config.WIDTH / 4, "Retry", () =>
+      this.scene.restart()
+    );
+    const nextButton = this.createButton(config.WIDTH / 4, "Next Level", () =>
+      this.scene.nextLevel()
+    );
+
+    this.container = this.scene.add
+      .container(
+        this.scene.cameras.main.centerX,
+        this.scene.cameras.main.centerY,
+        [background, title, this.statsText, retryButton, nextButton]
+      )
+      .setScrollFactor(0, 0, true)
+      .setDepth(1000)
+      .setVisible(false);
+  }
+
+  /**
+   * Creates a clickable text button at the bottom of the panel.
+   * @param x Horizontal offset from the panel center
+   * @param label Button label
+   * @param onClick Action to run when the button is pressed
+   */
+  private createButton(x: number, label: string, onClick: () => void) {
+    const config = UI.LEVEL_COMPLETE;
+    const button = this.scene.add
+      .text(x, config.HEIGHT / 2 - 45, label, {
+        fontSize: config.FONT_SIZE,
+        color: config.COLOR,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ cursor: "pointer" });
+
+    button.on("pointerover", () => button.setColor(config.HOVER_COLOR));
+    button.on("pointerout", () => button.setColor(config.COLOR));
+    button.on("pointerdown", onClick);
+
+    return button;
+  }
+
+  show() {
+    this.createOverlay();
+
+    this.statsText?.setText([
+      ...formatResults(this.scene.getScore()),
+      this.scene.getLevelLabel(),
+    ]);
+    this.container?.setVisible(true);
+  }
+
+  hide() {
+    if (this.container) {
+      this.container.setVisible(false);
+    }
+  }
+
+  destroy() {
+    if (this.container) {
+      this.container.destroy();
+      this.container = null;
+      this.statsText = null;
+    }
+  }
+}
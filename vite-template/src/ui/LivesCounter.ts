@@ -0,0 +1,54 @@
+/**
+ * @file LivesCounter.ts
+ * @description Manages the display of the player's remaining lives.
+ * Creates a text object below the coin counter and updates it when a life
+ * is lost or the lives are refilled for a new run.
+ */
+import * as Phaser from "phaser";
+
+import { UI } from "@constants";
+import { gameState } from "@gameState";
+
+import { eventBus } from "../lib/eventBus";
+
+export default class LivesCounter {
+  scene: Phaser.Scene;
+  text: Phaser.GameObjects.Text | null = null;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.createText();
+
+    eventBus.subscribe(scene, "livesChanged", ({ lives }) =>
+      this.setCount(lives)
+    );
+  }
+
+  createText() {
+    this.text = this.scene.add
+      .text(
+        this.scene.cameras.main.width - UI.LIVES_COUNTER.OFFSET.x,
+        UI.LIVES_COUNTER.OFFSET.y,
+        `Lives: ${gameState.getLives()}`,
+        {
+          fontSize: UI.LIVES_COUNTER.FONT_SIZE,
+          color: UI.LIVES_COUNTER.COLOR,
+          align: "right",
+        }
+      )
+      .setOrigin(1, 0);
+    this.text.setScrollFactor(0);
+  }
+
+  setCount(lives: number) {
+    if (this.text) {
+      this.text.setText(`Lives: ${lives}`);
+    }
+  }
+
+  destroy() {
+    if (this.text) {
+      this.text.destroy();
+    }
+  }
+}
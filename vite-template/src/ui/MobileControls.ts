@@ -2,12 +2,16 @@
  * @file MobileControls.ts
  * @description Creates and manages on-screen touch controls for mobile devices.
  * Displays left, right, and jump buttons if the game detects touch input.
+ * Their size, distance from the screen edges and which side the jump button
+ * is on follow the settings.
  * Tracks the state of these buttons (pressed or not).
  */
 import * as Phaser from "phaser";
 
 import { UI, ASSETS } from "@constants";
 
+import { Settings, settings } from "../lib/settings";
+
 // Define interface for control state
 interface MobileControlState {
   left: boolean;
@@ -39,52 +43,53 @@ export default class MobileControls {
   }
 
   createControls() {
-    // Check UI constant structure - assuming these exist
-    const buttonScale = UI.MOBILE_CONTROLS.SCALE;
-    const padding = UI.MOBILE_CONTROLS.PADDING;
-    const buttonSize = UI.MOBILE_CONTROLS.BUTTON_SIZE;
+    const createButton = () =>
+      this.scene.add
+        .image(0, 0, ASSETS.ATLAS, ASSETS.UI.DIRECTION_BUTTON)
+        .setScrollFactor(0)
+        .setInteractive({ cursor: "pointer" });
+
+    this.leftButton = createButton().setAngle(180); // Assuming angle controls orientation
+    this.rightButton = createButton();
+    this.jumpButton = createButton().setAngle(-90); // Use angle for jump button orientation
 
-    // Left button (bottom-left)
-    this.leftButton = this.scene.add
-      .image(
-        padding + buttonSize * buttonScale,
-        this.scene.cameras.main.height - padding - buttonSize * buttonScale,
-        ASSETS.ATLAS,
-        ASSETS.UI.DIRECTION_BUTTON
-      )
-      .setScrollFactor(0)
-      .setScale(buttonScale)
-      .setInteractive({ cursor: "pointer" })
-      .setAngle(180); // Assuming angle controls orientation
-
-    // Right button (to the right of left button)
-    this.rightButton = this.scene.add
-      .image(
-        padding + buttonSize * 3 * buttonScale, // Adjust position as needed
-        this.scene.cameras.main.height - padding - buttonSize * buttonScale,
-        ASSETS.ATLAS,
-        ASSETS.UI.DIRECTION_BUTTON
-      )
-      .setScrollFactor(0)
-      .setScale(buttonScale)
-      .setInteractive({ cursor: "pointer" });
-
-    // Jump button (bottom-right)
-    this.jumpButton = this.scene.add
-      .image(
-        this.scene.cameras.main.width - padding - buttonSize * buttonScale,
-        this.scene.cameras.main.height - padding - buttonSize * buttonScale,
-        ASSETS.ATLAS,
-        ASSETS.UI.DIRECTION_BUTTON
-      )
-      .setScrollFactor(0)
-      .setScale(buttonScale)
-      .setInteractive({ cursor: "pointer" })
-      .setAngle(-90); // Use angle for jump button orientation
+    this.applyLayout(settings.get());
 
     this.setupEventHandlers();
   }
 
+  /**
+   * Sizes the buttons and places them in the bottom corners: the direction
+   * buttons in one, the jump button in the other.
+   * @param layout The button scale, the distances from the screen edges and
+   * which side the jump button goes on
+   */
+  applyLayout(
+    layout: Pick<
+      Settings,
+      "mobileScale" | "mobileMarginX" | "mobileMarginY" | "mobileLayout"
+    >
+  ) {
+    if (!this.leftButton || !this.rightButton || !this.jumpButton) return;
+
+    const buttonScale = layout.mobileScale;
+    const buttonSize = UI.MOBILE_CONTROLS.BUTTON_SIZE;
+    const { width, height } = this.scene.cameras.main;
+    const y = height - layout.mobileMarginY - buttonSize * buttonScale;
+
+    // Direction buttons side by side, the jump button on its own
+    const nearEdge = layout.mobileMarginX + buttonSize * buttonScale;
+    const farEdge = layout.mobileMarginX + buttonSize * 3 * buttonScale;
+    const jumpLeft = layout.mobileLayout === "jumpLeft";
+    const leftX = jumpLeft ? width - farEdge : nearEdge;
+    const rightX = jumpLeft ? width - nearEdge : farEdge;
+    const jumpX = jumpLeft ? nearEdge : width - nearEdge;
+
+    this.leftButton.setPosition(leftX, y).setScale(buttonScale);
+    this.rightButton.setPosition(rightX, y).setScale(buttonScale);
+    this.jumpButton.setPosition(jumpX, y).setScale(buttonScale);
+  }
+
   setupEventHandlers() {
     // Add null checks before setting up handlers
     if (!this.leftButton || !this.rightButton || !this.jumpButton) {
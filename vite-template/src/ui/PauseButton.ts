@@ -0,0 +1,47 @@
+/**
+ * @file PauseButton.ts
+ * @description Creates the on-screen pause button in the top-left corner.
+ * Clicking or tapping it opens the pause menu, or closes it again, so touch
+ * devices without a keyboard or gamepad can pause too.
+ */
+import * as Phaser from "phaser";
+
+import { ASSETS, UI } from "@constants";
+
+export default class PauseButton {
+  scene: Phaser.Scene;
+  button: Phaser.GameObjects.Image | null = null;
+
+  /**
+   * @param scene The scene to add the button to
+   * @param onPress Called when the button is clicked or tapped
+   */
+  constructor(scene: Phaser.Scene, onPress: () => void) {
+    this.scene = scene;
+
+    const size = ASSETS.PAUSE_BUTTON.SIZE;
+    this.button = this.scene.add
+      .image(
+        UI.PAUSE_BUTTON.OFFSET.x + size / 2,
+        UI.PAUSE_BUTTON.OFFSET.y + size / 2,
+        ASSETS.PAUSE_BUTTON.KEY
+      )
+      .setScrollFactor(0)
+      .setAlpha(UI.PAUSE_BUTTON.ALPHA)
+      .setDepth(1001)
+      .setInteractive({ cursor: "pointer" });
+
+    this.button.on("pointerover", () => this.button?.setAlpha(1));
+    this.button.on("pointerout", () =>
+      this.button?.setAlpha(UI.PAUSE_BUTTON.ALPHA)
+    );
+    this.button.on("pointerdown", onPress);
+  }
+
+  destroy() {
+    if (this.button) {
+      this.button.destroy();
+      this.button = null;
+    }
+  }
+}
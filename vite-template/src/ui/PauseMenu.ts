@@ -0,0 +1,170 @@
+/**
+ * @file PauseMenu.ts
+ * @description Manages the pause menu overlay.
+ * This panel is displayed while the game is paused and lists the actions the
+ * scene offers, e.g. resume, restart and quit. Buttons can be clicked, or
+ * picked with the up/down keys or the d-pad and pressed with Enter or the
+ * gamepad's A button.
+ */
+import * as Phaser from "phaser";
+
+import { INPUT, UI } from "@constants";
+
+/** A button of the pause menu */
+export interface PauseMenuItem {
+  label: string;
+  action: () => void;
+}
+
+export default class PauseMenu {
+  scene: Phaser.Scene;
+  items: PauseMenuItem[];
+  container: Phaser.GameObjects.Container | null = null;
+  buttons: Phaser.GameObjects.Text[] = [];
+  /** Index of the highlighted button */
+  selectedIndex = 0;
+
+  /**
+   * @param scene The scene to show the menu in
+   * @param items The buttons, top to bottom
+   */
+  constructor(scene: Phaser.Scene, items: PauseMenuItem[]) {
+    this.scene = scene;
+    this.items = items;
+    this.listenForNavigation();
+  }
+
+  createOverlay() {
+    if (this.container) return;
+
+    const config = UI.PAUSE_MENU;
+
+    const background = this.scene.add.rectangle(
+      0,
+      0,
+      config.WIDTH,
+      config.HEIGHT,
+      config.BACKGROUND_COLOR,
+      config.BACKGROUND_ALPHA
+    );
+
+    const title = this.scene.add
+      .text(0, -config.HEIGHT / 2 + 40, "Paused", {
+        fontSize: config.TITLE_FONT_SIZE,
+        color: config.COLOR,
+      })
+      .setOrigin(0.5);
+
+    // Stack the buttons below the title, centered in the rest of the panel
+    const firstY = 30 - ((this.items.length - 1) * config.BUTTON_SPACING) / 2;
+    this.buttons = this.items.map((item, index) =>
+      this.createButton(firstY + index * config.BUTTON_SPACING, item, index)
+    );
+
+    this.container = this.scene.add
+      .container(
+        this.scene.cameras.main.centerX,
+        this.scene.cameras.main.centerY,
+        [background, title, ...this.buttons]
+      )
+      .setScrollFactor(0, 0, true)
+      .setDepth(1000)
+      .setVisible(false);
+  }
+
+  /**
+   * Creates a clickable text button.
+   * @param y Vertical offset from the panel center
+   * @param item The button label and action
+   * @param index Position of the button in the menu
+   */
+  private createButton(y: number, item: PauseMenuItem, index: number) {
+    const config = UI.PAUSE_MENU;
+    const button = this.scene.add
+      .text(0, y, item.label, {
+        fontSize: config.FONT_SIZE,
+        color: config.COLOR,
+      })
+      .setOrigin(0.5)
+      .setInteractive({ cursor: "pointer" });
+
+    button.on("pointerover", () => this.select(index));
+    button.on("pointerdown", item.action);
+
+    return button;
+  }
+
+  /**
+   * Moves the highlight with the keyboard and the gamepad d-pad, and presses
+   * the highlighted button with Enter or the A button. Ignored while hidden.
+   */
+  private listenForNavigation() {
+    const keyboard = this.scene.input.keyboard;
+    keyboard?.on("keydown-UP", () => this.moveSelection(-1));
+    keyboard?.on("keydown-W", () => this.moveSelection(-1));
+    keyboard?.on("keydown-DOWN", () => this.moveSelection(1));
+    keyboard?.on("keydown-S", () => this.moveSelection(1));
+    keyboard?.on("keydown-ENTER", () => this.pressSelected());
+
+    this.scene.input.gamepad?.on(
+      "down",
+      (_pad: Phaser.Input.Gamepad.Gamepad, button: { index: number }) => {
+        if (button.index === UI.PAUSE_MENU.GAMEPAD_UP_BUTTON) {
+          this.moveSelection(-1);
+        } else if (button.index === UI.PAUSE_MENU.GAMEPAD_DOWN_BUTTON) {
+          this.moveSelection(1);
+        } else if (button.index === INPUT.GAMEPAD.JUMP_BUTTON) {
+          this.pressSelected();
+        }
+      }
+    );
+  }
+
+  get isVisible(): boolean {
+    return this.container?.visible ?? false;
+  }
+
+  /**
+   * Highlights a button.
+   * @param index Position of the button in the menu
+   */
+  select(index: number) {
+    this.selectedIndex = index;
+    this.buttons.forEach((button, buttonIndex) =>
+      button.setColor(
+        buttonIndex === index ? UI.PAUSE_MENU.HOVER_COLOR : UI.PAUSE_MENU.COLOR
+      )
+    );
+  }
+
+  private moveSelection(step: number) {
+    if (!this.isVisible) return;
+    const count = this.items.length;
+    this.select((this.selectedIndex + step + count) % count);
+  }
+
+  private pressSelected() {
+    if (!this.isVisible) return;
+    this.items[this.selectedIndex]?.action();
+  }
+
+  show() {
+    this.createOverlay();
+    this.select(0);
+    this.container?.setVisible(true);
+  }
+
+  hide() {
+    if (this.container) {
+      this.container.setVisible(false);
+    }
+  }
+
+  destroy() {
+    if (this.container) {
+      this.container.destroy();
+      this.container = null;
+      this.buttons = [];
+    }
+  }
+}
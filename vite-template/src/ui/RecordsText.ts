@@ -0,0 +1,80 @@
+/**
+ * @file RecordsText.ts
+ * @description Shows the saved records of the current level below an overlay:
+ * the best score, coin total and time, the death count, and the latest runs.
+ * Used by the start screen and the game over overlay.
+ */
+import * as Phaser from "phaser";
+
+import { RECORDS, UI } from "@constants";
+import { formatTime } from "@ui/ResultsBreakdown";
+
+import { RunRecord, records } from "../lib/records";
+
+/**
+ * Describes a run in a few words.
+ * @param run The run
+ * @returns e.g. "42.3s, 1234 pts" or "game over, 310 pts"
+ */
+function formatRun(run: RunRecord): string {
+  const result =
+    run.outcome === "complete" ? formatTime(run.time) : "game over";
+  return `${result}, ${run.score} pts`;
+}
+
+export default class RecordsText {
+  scene: Phaser.Scene;
+  text: Phaser.GameObjects.Text;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.text = this.scene.add
+      .text(
+        this.scene.cameras.main.centerX,
+        this.scene.cameras.main.centerY + UI.RECORDS_TEXT.OFFSET_Y,
+        "",
+        {
+          fontSize: UI.RECORDS_TEXT.FONT_SIZE,
+          color: UI.RECORDS_TEXT.COLOR,
+          align: "center",
+        }
+      )
+      .setOrigin(0.5, 0)
+      .setScrollFactor(0)
+      .setVisible(false);
+  }
+
+  /**
+   * Shows the records of a level as they are saved right now.
+   * @param level Level key, see getLevelKey()
+   */
+  show(level: string) {
+    const record = records.getLevel(level);
+    if (!record) {
+      this.text.setText("No records yet").setVisible(true);
+      return;
+    }
+
+    const bestTime =
+      record.bestTime === null ? "not finished" : formatTime(record.bestTime);
+    const lines = [
+      `Best: ${record.bestScore} pts, ${record.bestCoins} coins, ${bestTime}   Deaths: ${record.deaths}`,
+    ];
+    const recentRuns = records
+      .getHistory(level)
+      .slice(0, RECORDS.RECENT_RUNS_SHOWN);
+    if (recentRuns.length > 0) {
+      lines.push(`Recent: ${recentRuns.map(formatRun).join(" | ")}`);
+    }
+
+    this.text.setText(lines).setVisible(true);
+  }
+
+  hide() {
+    this.text.setVisible(false);
+  }
+
+  destroy() {
+    this.text.destroy();
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @file ResultsBreakdown.ts
+ * @description Shows how the score of a finished run adds up: coins, combo
+ * bonus, distance, completion and time bonus, lost lives, the total and the
+ * medal. The game over overlay shows it above its art; the level complete
+ * overlay puts the same lines in its panel.
+ */
+import * as Phaser from "phaser";
+
+import { UI } from "@constants";
+
+import { ScoreResult } from "../lib/scoring";
+
+/**
+ * Formats a duration as seconds with one decimal place.
+ * @param ms Duration in milliseconds
+ * @returns The formatted duration, e.g. "42.3s"
+ */
+export function formatTime(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Lists the score of a run item by item.
+ * Items that earned nothing in this run are left out.
+ * @param result The scored run
+ * @returns One line per item, then the total and the medal
+ */
+export function formatResults(result: ScoreResult): string[] {
+  const { stats, thresholds } = result;
+  const lines = [
+    `Coins: ${stats.coins}  +${result.coinPoints}`,
+    `Best streak: ${stats.bestStreak}  +${result.comboPoints}`,
+    `Distance: ${Math.round(stats.distance)} m  +${result.distancePoints}`,
+  ];
+  if (stats.completed) {
+    lines.push(`Finish reached  +${result.completionPoints}`);
+    lines.push(
+      `Time: ${formatTime(stats.time)} (par ${formatTime(
+        thresholds.parTime
+      )})  +${result.timePoints}`
+    );
+  } else {
+    lines.push(`Time: ${formatTime(stats.time)}`);
+  }
+  if (stats.deaths > 0) {
+    lines.push(`Lives lost: ${stats.deaths}  -${result.deathPenalty}`);
+  }
+
+  const stars = "★".repeat(result.stars) + "☆".repeat(3 - result.stars);
+  const medal =
+    result.medal === "none"
+      ? `${thresholds.medals.bronze} for bronze`
+      : result.medal.toUpperCase();
+  lines.push(`Score: ${result.total}`, `${stars}  ${medal}`);
+  return lines;
+}
+
+export default class ResultsBreakdown {
+  scene: Phaser.Scene;
+  text: Phaser.GameObjects.Text;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.text = this.scene.add
+      .text(
+        this.scene.cameras.main.centerX,
+        this.scene.cameras.main.centerY - UI.RESULTS_TEXT.OFFSET_Y,
+        "",
+        {
+          fontSize: UI.RESULTS_TEXT.FONT_SIZE,
+          color: UI.RESULTS_TEXT.COLOR,
+          align: "center",
+        }
+      )
+      .setOrigin(0.5, 1)
+      .setScrollFactor(0)
+      .setVisible(false);
+  }
+
+  /**
+   * Shows the breakdown of a scored run.
+   * @param result The scored run
+   */
+  show(result: ScoreResult) {
+    this.text.setText(formatResults(result)).setVisible(true);
+  }
+
+  hide() {
+    this.text.setVisible(false);
+  }
+
+  destroy() {
+    this.text.destroy();
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * @file RunTimer.ts
+ * @description Manages the display of the run's play time.
+ * Creates a text object left of the coin counter and refreshes it every
+ * frame. The clock stands still while the game is paused.
+ */
+import * as Phaser from "phaser";
+
+import { UI } from "@constants";
+import { gameState } from "@gameState";
+import { formatTime } from "@ui/ResultsBreakdown";
+
+export default class RunTimer {
+  scene: Phaser.Scene;
+  text: Phaser.GameObjects.Text | null = null;
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.createText();
+  }
+
+  createText() {
+    this.text = this.scene.add
+      .text(
+        this.scene.cameras.main.width - UI.RUN_TIMER.OFFSET.x,
+        UI.RUN_TIMER.OFFSET.y,
+        `Time: ${formatTime(gameState.getElapsedTime())}`,
+        {
+          fontSize: UI.RUN_TIMER.FONT_SIZE,
+          color: UI.RUN_TIMER.COLOR,
+          align: "right",
+        }
+      )
+      .setOrigin(1, 0);
+    this.text.setScrollFactor(0);
+  }
+
+  /**
+   * Shows the current play time. Called every frame.
+   */
+  update() {
+    this.text?.setText(`Time: ${formatTime(gameState.getElapsedTime())}`);
+  }
+
+  destroy() {
+    if (this.text) {
+      this.text.destroy();
+    }
+  }
+}